@@ -1,14 +1,61 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   Users, Calendar, Settings, History, Plus, Trash2, Download, 
-  CheckCircle, AlertCircle, FileSpreadsheet, Upload, Edit2, X, ChevronLeft, ChevronRight
+  CheckCircle, AlertCircle, FileSpreadsheet, Upload, Edit2, X, ChevronLeft, ChevronRight, CalendarOff, Flag, Heart, AlertTriangle, Undo2, Redo2, ScrollText, GitCompare, Pin, Lock, Unlock, RefreshCw, CalendarPlus, Printer, Archive, ArchiveRestore, Info
 } from 'lucide-react';
 import { 
   Employee, ShiftConfig, ScheduleVersion, WorkerPreference, 
-  ShiftType, HistoricalContext, ManualHistoryInput
+  ShiftType, HistoricalContext, ManualHistoryInput, AppState, HistoryNameMapping,
+  SolverEngine, SolverReport, HardConstraints, TimeOffEntry, ShiftRequest, RequestKind, ShiftDefinition,
+  Skill, ShiftRequirement, ScheduleViolation, ViolationSeverity, RosterEdit, SlotRef,
+  AuditEntry, AuditAction, EmployeeStats, CsvTable, CsvColumnRole, ProjectBackup, StatsRollover, GenerateOptions, Holiday, DateOverride, UndesirableCategory
 } from './types';
-import { generateSchedule, exportToCSV, exportToExcel, getDaysInMonth, formatDateKey, parsePastScheduleCSV } from './services/scheduler';
+import { 
+  generateSchedule, exportToExcel, getDaysInMonth, getFullWeeksRange, formatDateKey, parseDateKey, 
+  findUnmatchedHistoryNames, buildHistoricalContext, fingerprintInputs 
+} from './services/scheduler';
+import { exportToCSV, readCsvFile, detectColumnRoles, exportedNameMapping, tableToHistory, tableToVersion, findUnmatchedVersionNames } from './services/scheduleCsv';
+import { loadAppState, saveAppState, subscribeToExternalChanges } from './services/storage';
+import { DEFAULT_HARD_CONSTRAINTS, CONSTRAINT_LABELS, getTimeOffOn } from './services/constraints';
+import { DEFAULT_SHIFTS, getShiftRequirement, getRequiredCount, getDateRequiredCount, getCalendarRequirement, getHoliday, getDateOverride, getAssigned, shiftTint, getVersionShifts, findEmployeeShift, getShiftDurationHours } from './services/shifts';
+import { findUnmetSkills } from './services/skills';
+import { validateSchedule, checkCandidate } from './services/validator';
+import { applyRosterEdit, invertRosterEdit } from './services/rosterEdits';
+import { compareVersions, canCompareVersions } from './services/compare';
+import { isDayLocked, isAssignmentLocked, toggleDayLock, toggleAssignmentLock, countLocks } from './services/locks';
+import { exportRosterICS, exportEmployeeICS, exportAllICS, parseHolidaysICS } from './services/ics';
+import { FeasibilityReport, analyzeFeasibility } from './services/feasibility';
+import { DEFAULT_WEEKEND_DAYS, DEFAULT_UNDESIRABLE, FairnessLevel, UNDESIRABLE_STATS, summarizeUndesirable } from './services/fairness';
+import { findExplanation, explainAssignment, explainEmpty, describeWish, slotChangedSince } from './services/explanations';
+import { MAX_SEED, isValidSeed } from './services/random';
+import { ScheduleCandidate, CandidateSearch, maxCandidates, searchCandidates } from './services/candidates';
+import { isPreviousMonth, planContinuation, getMonthTarget } from './services/continuity';
+import { BackupSummary, BackupMergeResult, exportBackup, readBackup, mergeBackup } from './services/backup';
+import { SetupFileFormat, WorkforceFile, WorkforceImportMode, exportWorkforce, exportRules, parseWorkforceFile, parseRulesFile, mergeWorkforce } from './services/setupFiles';
+
+const DEFAULT_EMPLOYEES: Employee[] = [
+  { id: '1', name: 'גולן חדד', preference: WorkerPreference.DAY_ONLY, availability: { daysOff: [], timeOff: [] }, shiftRequests: [], skills: [], color: '#fff' },
+  { id: '2', name: 'ניצן כפיר', preference: WorkerPreference.EITHER, availability: { daysOff: [], timeOff: [] }, shiftRequests: [], skills: [], color: '#fff' },
+  { id: '3', name: 'דן אהרוני', preference: WorkerPreference.EITHER, availability: { daysOff: [], timeOff: [] }, shiftRequests: [], skills: [], color: '#fff' },
+  { id: '4', name: 'ענבר כפיר', preference: WorkerPreference.EITHER, availability: { daysOff: [], timeOff: [] }, shiftRequests: [], skills: [], color: '#fff' },
+  { id: '5', name: 'רועי נוף', preference: WorkerPreference.EITHER, availability: { daysOff: [], timeOff: [] }, shiftRequests: [], skills: [], color: '#fff' },
+  { id: '6', name: 'עומרי חכים', preference: WorkerPreference.EITHER, availability: { daysOff: [], timeOff: [] }, shiftRequests: [], skills: [], color: '#fff' },
+];
+
+const headcount = (day: number, night: number) => ({ day: { count: day, skills: {} }, night: { count: night, skills: {} } });
+
+const DEFAULT_CONFIG: ShiftConfig = {
+  shifts: DEFAULT_SHIFTS, skills: [], distributeDayShiftsToEither: false,
+  constraints: DEFAULT_HARD_CONSTRAINTS,
+  requirements: { 0: headcount(1, 1), 1: headcount(2, 1), 2: headcount(2, 1), 3: headcount(2, 1), 4: headcount(2, 2), 5: headcount(2, 2), 6: headcount(1, 1) },
+  holidays: [], dateOverrides: [],
+  undesirable: DEFAULT_UNDESIRABLE, weekendDays: DEFAULT_WEEKEND_DAYS
+};
+
+type StorageIssue =
+  | { kind: 'conflict'; savedAt: number }
+  | { kind: 'unreadable'; message: string };
 
 // --- Manual History Modal ---
 const ManualHistoryModal: React.FC<{
@@ -17,8 +64,9 @@ const ManualHistoryModal: React.FC<{
   year: number;
   month: number;
   employees: Employee[];
+  shifts: ShiftDefinition[];
   onSave: (data: ManualHistoryInput) => void;
-}> = ({ isOpen, onClose, year, month, employees, onSave }) => {
+}> = ({ isOpen, onClose, year, month, employees, shifts, onSave }) => {
   if (!isOpen) return null;
 
   // Calculate the last 7 days of the PREVIOUS month
@@ -33,16 +81,16 @@ const ManualHistoryModal: React.FC<{
 
   const [inputData, setInputData] = useState<ManualHistoryInput>({});
 
-  const toggleWorker = (dateKey: string, shift: 'dayShift' | 'nightShift', empId: string) => {
+  const toggleWorker = (dateKey: string, shiftId: string, empId: string) => {
     setInputData(prev => {
-      const current = prev[dateKey] || { dayShift: [], nightShift: [] };
-      const list = current[shift];
+      const current = prev[dateKey] || {};
+      const list = current[shiftId] || [];
       const exists = list.includes(empId);
       const newList = exists ? list.filter(id => id !== empId) : [...list, empId];
       
       return {
         ...prev,
-        [dateKey]: { ...current, [shift]: newList }
+        [dateKey]: { ...current, [shiftId]: newList }
       };
     });
   };
@@ -61,50 +109,38 @@ const ManualHistoryModal: React.FC<{
           </div>
           <div className="p-4 overflow-y-auto flex-1">
              <p className="text-sm text-gray-500 mb-4">
-               Manually assign who worked the last week of the previous month. The scheduler will use this to respect constraints (e.g. No Day after Night) for the first days of the new month.
+               Manually assign who worked the last week of the previous month. The scheduler will use this to respect constraints (e.g. minimum rest between shifts) for the first days of the new month.
              </p>
              <div className="grid gap-4">
                 {dates.map(date => {
                    const dateKey = formatDateKey(date);
-                   const entry = inputData[dateKey] || { dayShift: [], nightShift: [] };
+                   const entry = inputData[dateKey] || {};
                    return (
                      <div key={dateKey} className="border rounded-lg p-3">
                         <div className="font-bold text-gray-700 mb-2">
                            {date.toLocaleDateString('default', { weekday: 'short', month: 'short', day: 'numeric' })}
                         </div>
                         <div className="grid grid-cols-2 gap-4">
-                           <div>
-                              <div className="text-xs font-bold text-amber-600 mb-1">DAY</div>
-                              <div className="flex flex-wrap gap-1">
-                                 {employees.map(e => (
-                                    <button
-                                      key={e.id}
-                                      onClick={() => toggleWorker(dateKey, 'dayShift', e.id)}
-                                      className={`text-xs px-2 py-1 rounded border ${
-                                        entry.dayShift.includes(e.id) ? 'bg-amber-100 border-amber-300 text-amber-800' : 'bg-white border-gray-200 text-gray-500'
-                                      }`}
-                                    >
-                                      {e.name}
-                                    </button>
-                                 ))}
-                              </div>
-                           </div>
-                           <div>
-                              <div className="text-xs font-bold text-indigo-600 mb-1">NIGHT</div>
-                              <div className="flex flex-wrap gap-1">
-                                 {employees.map(e => (
-                                    <button
-                                      key={e.id}
-                                      onClick={() => toggleWorker(dateKey, 'nightShift', e.id)}
-                                      className={`text-xs px-2 py-1 rounded border ${
-                                        entry.nightShift.includes(e.id) ? 'bg-indigo-100 border-indigo-300 text-indigo-800' : 'bg-white border-gray-200 text-gray-500'
-                                      }`}
-                                    >
-                                      {e.name}
-                                    </button>
-                                 ))}
-                              </div>
-                           </div>
+                           {shifts.map(def => (
+                             <div key={def.id}>
+                                <div className="text-xs font-bold mb-1 uppercase" style={{ color: def.color }}>{def.name}</div>
+                                <div className="flex flex-wrap gap-1">
+                                   {employees.map(e => {
+                                      const active = (entry[def.id] || []).includes(e.id);
+                                      return (
+                                        <button
+                                          key={e.id}
+                                          onClick={() => toggleWorker(dateKey, def.id, e.id)}
+                                          className={`text-xs px-2 py-1 rounded border ${active ? 'text-gray-900' : 'bg-white border-gray-200 text-gray-500'}`}
+                                          style={active ? { backgroundColor: shiftTint(def, '33'), borderColor: def.color } : undefined}
+                                        >
+                                          {e.name}
+                                        </button>
+                                      );
+                                   })}
+                                </div>
+                             </div>
+                           ))}
                         </div>
                      </div>
                    );
@@ -120,25 +156,461 @@ const ManualHistoryModal: React.FC<{
   );
 };
 
+// --- CSV Column Mapping ---
+const columnRoleValue = (role: CsvColumnRole): string => role.kind === 'shift' ? `shift:${role.shiftId}` : role.kind;
+
+const parseColumnRole = (value: string): CsvColumnRole =>
+  value.startsWith('shift:') ? { kind: 'shift', shiftId: value.slice('shift:'.length) } : { kind: value as 'ignore' | 'date' | 'padding' };
+
+const ColumnMappingEditor: React.FC<{
+  table: CsvTable;
+  roles: CsvColumnRole[];
+  shifts: ShiftDefinition[];
+  onChange: (roles: CsvColumnRole[]) => void;
+}> = ({ table, roles, shifts, onChange }) => {
+  // Shift IDs taken from an exported file that are no longer configured still need an option
+  const unknownShiftIds = Array.from(new Set(roles.flatMap(r => r.kind === 'shift' && !shifts.some(s => s.id === r.shiftId) ? [r.shiftId] : [])));
+  const delimiterName = table.delimiter === '\t' ? 'tab' : `"${table.delimiter}"`;
+  return (
+    <div className="border rounded-lg p-3">
+      <div className="font-bold text-gray-700 text-sm mb-2">Columns <span className="font-normal text-xs text-gray-400">({delimiterName}-separated)</span></div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {table.headers.map((header, col) => (
+          <div key={col} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate text-gray-800" title={table.rows[0]?.[col] ? `e.g. ${table.rows[0][col]}` : undefined}>{header || `Column ${col + 1}`}</span>
+            <select
+              value={columnRoleValue(roles[col])}
+              onChange={e => onChange(roles.map((r, i) => i === col ? parseColumnRole(e.target.value) : r))}
+              className={`w-40 p-1 border rounded bg-white text-black ${roles[col].kind === 'ignore' ? 'text-gray-400' : ''}`}
+            >
+              <option value="ignore">Ignore</option>
+              <option value="date">Date</option>
+              <option value="padding">Is Padding</option>
+              {shifts.map(def => <option key={def.id} value={`shift:${def.id}`}>{def.name} worker</option>)}
+              {unknownShiftIds.map(id => <option key={id} value={`shift:${id}`}>{id} worker (not configured)</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Names that don't match any employee must be mapped or ignored explicitly
+const NameMappingEditor: React.FC<{
+  names: string[];
+  mapping: HistoryNameMapping;
+  employees: Employee[];
+  onChange: (mapping: HistoryNameMapping) => void;
+}> = ({ names, mapping, employees, onChange }) => {
+  if (names.length === 0) return null;
+  const mappedCount = names.filter(name => mapping[name.toLowerCase()]).length;
+  return (
+    <div className="border border-amber-200 bg-amber-50 rounded-lg p-3">
+       <div className="font-bold text-amber-800 text-sm mb-2 flex items-center gap-2">
+         <AlertCircle className="w-4 h-4" /> {names.length} unmatched {names.length === 1 ? 'name' : 'names'} ({mappedCount} mapped)
+       </div>
+       <div className="space-y-2">
+         {names.map(name => (
+           <div key={name} className="flex items-center justify-between gap-4 text-sm">
+             <span className="font-medium text-gray-800 truncate">{name}</span>
+             <select
+               value={mapping[name.toLowerCase()] || ''}
+               onChange={e => onChange({ ...mapping, [name.toLowerCase()]: e.target.value || null })}
+               className="w-48 p-1 border rounded bg-white text-black"
+             >
+               <option value="">Ignore</option>
+               {employees.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+             </select>
+           </div>
+         ))}
+       </div>
+    </div>
+  );
+};
+
+// --- History Import Modal ---
+const HistoryImportModal: React.FC<{
+  table: CsvTable;
+  employees: Employee[];
+  config: ShiftConfig;
+  onClose: () => void;
+  onApply: (context: HistoricalContext) => void;
+}> = ({ table, employees, config, onClose, onApply }) => {
+  const shifts = config.shifts;
+  const [roles, setRoles] = useState<CsvColumnRole[]>(() => detectColumnRoles(table, shifts));
+  const parsed = useMemo(() => tableToHistory(table, roles), [table, roles]);
+  const exportedNames = useMemo(() => exportedNameMapping(table, employees), [table, employees]);
+  const [mapping, setMapping] = useState<HistoryNameMapping>({});
+  const fullMapping = useMemo(() => ({ ...exportedNames, ...mapping }), [exportedNames, mapping]);
+  const unmatchedNames = useMemo(() => findUnmatchedHistoryNames(parsed, employees, exportedNames), [parsed, employees, exportedNames]);
+  const context = useMemo(() => buildHistoricalContext(parsed, employees, config, fullMapping), [parsed, employees, config, fullMapping]);
+  const hasShiftColumns = roles.some(r => r.kind === 'shift');
+
+  const handleApply = () => {
+    onApply(context);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+       <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+          <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+             <h3 className="text-lg font-bold text-gray-800">Import History: {parsed.sourceName}</h3>
+             <button onClick={onClose}><X className="w-5 h-5 text-gray-500" /></button>
+          </div>
+          <div className="p-4 overflow-y-auto flex-1 space-y-6">
+             <p className="text-sm text-gray-500">
+               {parsed.rows.length} days found. Accumulated shifts are used for fairness, and the streaks and last shifts at the end of the file are used to respect constraints on the first days of the new month.
+             </p>
+
+             <ColumnMappingEditor table={table} roles={roles} shifts={shifts} onChange={setRoles} />
+             {!hasShiftColumns && <p className="text-sm text-red-600 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> Map at least one column to a shift.</p>}
+
+             <NameMappingEditor names={unmatchedNames} mapping={mapping} employees={employees} onChange={setMapping} />
+
+             <div className="overflow-x-auto">
+               <table className="w-full text-sm text-left">
+                  <thead className="bg-gray-50 text-gray-500 font-medium">
+                     <tr>
+                       <th className="px-4 py-2">Employee</th>
+                       <th className="px-4 py-2 text-center">Day</th>
+                       <th className="px-4 py-2 text-center">Night</th>
+                       <th className="px-4 py-2 text-center">Total</th>
+                       <th className="px-4 py-2 text-center">Streak at End</th>
+                       <th className="px-4 py-2 text-center">Last Day</th>
+                     </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                     {employees.map(emp => {
+                        const stats = context.accumulatedStats[emp.id] || { day: 0, night: 0, total: 0 };
+                        const streak = context.consecutiveDaysEnding[emp.id] || 0;
+                        const lastShift = shifts.find(def => (context.lastDayAssignments[def.id] || []).includes(emp.id));
+                        return (
+                          <tr key={emp.id}>
+                            <td className="px-4 py-2 font-medium text-gray-900">{emp.name}</td>
+                            <td className="px-4 py-2 text-center text-gray-900">{stats.day}</td>
+                            <td className="px-4 py-2 text-center text-gray-900">{stats.night}</td>
+                            <td className="px-4 py-2 text-center font-bold bg-gray-50 text-gray-900">{stats.total}</td>
+                            <td className="px-4 py-2 text-center text-gray-900">{streak > 0 ? `${streak} days` : '-'}</td>
+                            <td className="px-4 py-2 text-center">{lastShift ? <span className="px-2 py-0.5 rounded text-xs" style={{ backgroundColor: shiftTint(lastShift), color: lastShift.color }}>{lastShift.name}</span> : '-'}</td>
+                          </tr>
+                        );
+                     })}
+                  </tbody>
+               </table>
+             </div>
+          </div>
+          <div className="p-4 border-t bg-gray-50 rounded-b-xl flex justify-end gap-2">
+             <button onClick={onClose} className="px-4 py-2 text-gray-600">Cancel</button>
+             <button onClick={handleApply} disabled={!hasShiftColumns} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">Apply History</button>
+          </div>
+       </div>
+    </div>
+  );
+};
+
+// --- Version Import Modal ---
+// Reads a roster CSV (typically one exported here) back into a schedule version
+const VersionImportModal: React.FC<{
+  table: CsvTable;
+  employees: Employee[];
+  config: ShiftConfig;
+  onClose: () => void;
+  onImport: (version: ScheduleVersion) => void;
+}> = ({ table, employees, config, onClose, onImport }) => {
+  const [roles, setRoles] = useState<CsvColumnRole[]>(() => detectColumnRoles(table, config.shifts));
+  const exportedNames = useMemo(() => exportedNameMapping(table, employees), [table, employees]);
+  const [mapping, setMapping] = useState<HistoryNameMapping>({});
+  const fullMapping = useMemo(() => ({ ...exportedNames, ...mapping }), [exportedNames, mapping]);
+  const unmatchedNames = useMemo(() => findUnmatchedVersionNames(table, roles, employees, exportedNames), [table, roles, employees, exportedNames]);
+  const result = useMemo(() => tableToVersion(table, roles, employees, config, fullMapping), [table, roles, employees, config, fullMapping]);
+  const version = result.version;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+       <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+          <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+             <h3 className="text-lg font-bold text-gray-800">Import Version: {table.sourceName}</h3>
+             <button onClick={onClose}><X className="w-5 h-5 text-gray-500" /></button>
+          </div>
+          <div className="p-4 overflow-y-auto flex-1 space-y-6">
+             <ColumnMappingEditor table={table} roles={roles} shifts={config.shifts} onChange={setRoles} />
+             <NameMappingEditor names={unmatchedNames} mapping={mapping} employees={employees} onChange={setMapping} />
+             {result.errors.length > 0 && (
+               <div className="border border-red-200 bg-red-50 rounded-lg p-3 text-sm text-red-700 space-y-1">
+                 {result.errors.map((err, i) => <div key={i} className="flex items-center gap-2"><AlertCircle className="w-4 h-4 shrink-0" /> {err}</div>)}
+               </div>
+             )}
+             {version && (
+               <p className="text-sm text-gray-600">
+                 <span className="font-medium text-gray-900">{version.name}</span> · {new Date(version.year, version.month, 1).toLocaleString('default', { month: 'long', year: 'numeric' })} · {version.schedule.length} days, {version.schedule.reduce((sum, d) => sum + Object.values(d.assignments).flat().length, 0)} assignments
+                 {version.auditLog.length > 0 && ` · ${version.auditLog.length} audit entries`}
+               </p>
+             )}
+          </div>
+          <div className="p-4 border-t bg-gray-50 rounded-b-xl flex justify-end gap-2">
+             <button onClick={onClose} className="px-4 py-2 text-gray-600">Cancel</button>
+             <button onClick={() => { if (version) { onImport(version); onClose(); } }} disabled={!version} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">Import Version</button>
+          </div>
+       </div>
+    </div>
+  );
+};
+
+// --- Time Off Picker ---
+const describeTimeOff = (t: TimeOffEntry, shifts: ShiftDefinition[]): string => {
+  const fmt = (key: string) => parseDateKey(key).toLocaleDateString('default', { month: 'short', day: 'numeric' });
+  const range = t.startDate === t.endDate ? fmt(t.startDate) : `${fmt(t.startDate)} - ${fmt(t.endDate)}`;
+  if (!t.shiftId) return range;
+  return `${range} (${shifts.find(s => s.id === t.shiftId)?.name ?? t.shiftId} only)`;
+};
+
+const TimeOffPicker: React.FC<{ entries: TimeOffEntry[]; shifts: ShiftDefinition[]; onChange: (entries: TimeOffEntry[]) => void; }> = ({ entries, shifts, onChange }) => {
+  const [viewMonth, setViewMonth] = useState(() => { const d = new Date(); return new Date(d.getFullYear(), d.getMonth(), 1); });
+  const [rangeStart, setRangeStart] = useState<string | null>(null);
+  const [rangeEnd, setRangeEnd] = useState<string | null>(null);
+  const [shiftScope, setShiftScope] = useState('');
+  const [reason, setReason] = useState('');
+
+  const gridDays = getFullWeeksRange(viewMonth.getFullYear(), viewMonth.getMonth());
+  const selectionEnd = rangeEnd || rangeStart;
+
+  // First click picks the start, second click the end; a third click starts over
+  const handleDayClick = (key: string) => {
+    if (!rangeStart || rangeEnd) { setRangeStart(key); setRangeEnd(null); return; }
+    if (key < rangeStart) { setRangeEnd(rangeStart); setRangeStart(key); } else setRangeEnd(key);
+  };
+
+  const handleAdd = () => {
+    if (!rangeStart) return;
+    onChange([...entries, {
+      id: crypto.randomUUID(),
+      startDate: rangeStart,
+      endDate: rangeEnd || rangeStart,
+      shiftId: shiftScope || undefined,
+      reason: reason.trim() || undefined
+    }]);
+    setRangeStart(null); setRangeEnd(null); setShiftScope(''); setReason('');
+  };
+
+  const shiftMonth = (delta: number) => setViewMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="bg-white border rounded-lg p-3">
+        <div className="flex justify-between items-center mb-2">
+          <button onClick={() => shiftMonth(-1)} className="p-1 text-gray-500 hover:text-blue-600"><ChevronLeft className="w-4 h-4" /></button>
+          <span className="text-sm font-bold text-gray-700">{viewMonth.toLocaleString('default', { month: 'long', year: 'numeric' })}</span>
+          <button onClick={() => shiftMonth(1)} className="p-1 text-gray-500 hover:text-blue-600"><ChevronRight className="w-4 h-4" /></button>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center text-[10px] font-bold text-gray-400 mb-1">
+          {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((d, i) => <div key={i}>{d}</div>)}
+        </div>
+        <div className="grid grid-cols-7 gap-1">
+          {gridDays.map(d => {
+            const key = formatDateKey(d);
+            const inMonth = d.getMonth() === viewMonth.getMonth();
+            const selected = !!rangeStart && !!selectionEnd && rangeStart <= key && key <= selectionEnd;
+            const booked = entries.some(t => t.startDate <= key && key <= t.endDate);
+            return (
+              <button
+                key={key}
+                onClick={() => handleDayClick(key)}
+                className={`text-xs py-1 rounded ${selected ? 'bg-blue-600 text-white' : booked ? 'bg-red-100 text-red-700' : inMonth ? 'text-gray-700 hover:bg-gray-100' : 'text-gray-300 hover:bg-gray-50'}`}
+              >
+                {d.getDate()}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <select value={shiftScope} onChange={e => setShiftScope(e.target.value)} className="p-2 border rounded bg-white text-black text-sm">
+            <option value="">Whole day</option>
+            {shifts.map(s => <option key={s.id} value={s.id}>{s.name} shift only</option>)}
+          </select>
+          <input value={reason} onChange={e => setReason(e.target.value)} placeholder="Reason (optional)" className="p-2 border rounded bg-white text-black text-sm" />
+        </div>
+        <button onClick={handleAdd} disabled={!rangeStart} className="w-full text-sm bg-red-50 text-red-700 border border-red-200 py-2 rounded hover:bg-red-100 disabled:opacity-50 flex items-center justify-center gap-2">
+          <CalendarOff className="w-4 h-4" /> {rangeStart ? `Block ${describeTimeOff({ id: '', startDate: rangeStart, endDate: selectionEnd!, shiftId: shiftScope || undefined }, shifts)}` : 'Pick dates on the calendar'}
+        </button>
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {entries.map(t => (
+            <div key={t.id} className="flex items-center justify-between text-xs bg-white border rounded px-2 py-1">
+              <span className="text-gray-700">{describeTimeOff(t, shifts)}{t.reason && <span className="text-gray-400"> - {t.reason}</span>}</span>
+              <button onClick={() => onChange(entries.filter(x => x.id !== t.id))} className="text-gray-400 hover:text-red-500"><X className="w-3 h-3" /></button>
+            </div>
+          ))}
+          {entries.length === 0 && <div className="text-xs text-gray-400">No time off booked</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Shift Request Editor ---
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const describeShiftRequest = (r: ShiftRequest, shifts: ShiftDefinition[]): string => {
+  const when = r.date
+    ? parseDateKey(r.date).toLocaleDateString('default', { month: 'short', day: 'numeric' })
+    : `every ${WEEKDAY_NAMES[r.dayOfWeek ?? 0]}`;
+  const shift = r.shiftId ? ` ${(shifts.find(s => s.id === r.shiftId)?.name ?? r.shiftId).toLowerCase()}` : '';
+  return `${r.kind === RequestKind.PREFER ? 'Work' : 'Not'} ${when}${shift}`;
+};
+
+const ShiftRequestEditor: React.FC<{ requests: ShiftRequest[]; shifts: ShiftDefinition[]; onChange: (requests: ShiftRequest[]) => void; }> = ({ requests, shifts, onChange }) => {
+  const [kind, setKind] = useState<RequestKind>(RequestKind.PREFER);
+  const [recurring, setRecurring] = useState(false);
+  const [date, setDate] = useState('');
+  const [dayOfWeek, setDayOfWeek] = useState(5);
+  const [shift, setShift] = useState('');
+  const [weight, setWeight] = useState(3);
+
+  const handleAdd = () => {
+    if (!recurring && !date) return;
+    onChange([...requests, {
+      id: crypto.randomUUID(),
+      kind,
+      date: recurring ? undefined : date,
+      dayOfWeek: recurring ? dayOfWeek : undefined,
+      shiftId: shift || undefined,
+      weight
+    }]);
+    setDate('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2 items-center text-sm">
+        <select value={kind} onChange={e => setKind(e.target.value as RequestKind)} className="p-2 border rounded bg-white text-black">
+          <option value={RequestKind.PREFER}>Would like to work</option>
+          <option value={RequestKind.AVOID}>Would rather not work</option>
+        </select>
+        <select value={recurring ? 'recurring' : 'dated'} onChange={e => setRecurring(e.target.value === 'recurring')} className="p-2 border rounded bg-white text-black">
+          <option value="dated">on date</option>
+          <option value="recurring">every</option>
+        </select>
+        {recurring
+          ? <select value={dayOfWeek} onChange={e => setDayOfWeek(parseInt(e.target.value))} className="p-2 border rounded bg-white text-black">{WEEKDAY_NAMES.map((d, i) => <option key={d} value={i}>{d}</option>)}</select>
+          : <input type="date" value={date} onChange={e => setDate(e.target.value)} className="p-2 border rounded bg-white text-black" />}
+        <select value={shift} onChange={e => setShift(e.target.value)} className="p-2 border rounded bg-white text-black">
+          <option value="">any shift</option>
+          {shifts.map(s => <option key={s.id} value={s.id}>{s.name.toLowerCase()} shift</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-gray-600">Weight <input type="number" min="1" max="5" value={weight} onChange={e => setWeight(Math.min(5, Math.max(1, parseInt(e.target.value) || 1)))} className="w-12 p-1 border rounded text-center bg-white text-black" /></label>
+        <button onClick={handleAdd} disabled={!recurring && !date} className="px-3 py-2 rounded bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 disabled:opacity-50 flex items-center gap-1"><Plus className="w-4 h-4" /> Add</button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {requests.map(r => (
+          <span key={r.id} className={`text-xs px-2 py-1 rounded border flex items-center gap-1 ${r.kind === RequestKind.PREFER ? 'bg-green-50 border-green-200 text-green-800' : 'bg-orange-50 border-orange-200 text-orange-800'}`}>
+            {describeShiftRequest(r, shifts)} <span className="opacity-60">x{r.weight}</span>
+            <button onClick={() => onChange(requests.filter(x => x.id !== r.id))} className="hover:text-red-600"><X className="w-3 h-3" /></button>
+          </span>
+        ))}
+        {requests.length === 0 && <div className="text-xs text-gray-400">No shift requests</div>}
+      </div>
+    </div>
+  );
+};
+
+// --- Setup Files ---
+const SetupFileButtons: React.FC<{ label: string; onImport: (file: File) => void; onExport: (format: SetupFileFormat) => void }> = ({ label, onImport, onExport }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+  return (
+    <div className="flex items-center gap-1">
+      <input ref={fileRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} className="hidden" />
+      <button onClick={() => fileRef.current?.click()} title={`Import ${label} from a JSON or CSV file`} className="flex items-center gap-1 px-3 py-2 text-sm border rounded-lg text-gray-600 hover:bg-gray-50"><Upload className="w-4 h-4" /> Import</button>
+      <button onClick={() => onExport('json')} title={`Export ${label} as JSON`} className="flex items-center gap-1 px-3 py-2 text-sm border rounded-lg text-gray-600 hover:bg-gray-50"><Download className="w-4 h-4" /> JSON</button>
+      <button onClick={() => onExport('csv')} title={`Export ${label} as CSV`} className="flex items-center gap-1 px-3 py-2 text-sm border rounded-lg text-gray-600 hover:bg-gray-50"><Download className="w-4 h-4" /> CSV</button>
+    </div>
+  );
+};
+
+const WorkforceImportModal: React.FC<{
+  file: WorkforceFile;
+  fileName: string;
+  employees: Employee[];
+  versions: ScheduleVersion[];
+  onClose: () => void;
+  onApply: (employees: Employee[]) => void;
+}> = ({ file, fileName, employees, versions, onClose, onApply }) => {
+  const [mode, setMode] = useState<WorkforceImportMode>(WorkforceImportMode.MERGE);
+  const result = useMemo(() => mergeWorkforce(file.records, employees, versions, mode), [file, employees, versions, mode]);
+  const errors = [...file.errors, ...result.errors];
+  const removedNames = employees.filter(e => !result.employees.some(r => r.id === e.id)).map(e => e.name);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+       <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl max-h-[90vh] flex flex-col">
+          <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+             <h3 className="text-lg font-bold text-gray-800">Import Workforce: {fileName}</h3>
+             <button onClick={onClose}><X className="w-5 h-5 text-gray-500" /></button>
+          </div>
+          <div className="p-4 overflow-y-auto flex-1 space-y-4">
+             <div className="flex bg-gray-100 rounded-lg p-1">
+               {Object.values(WorkforceImportMode).map(m => <button key={m} onClick={() => setMode(m)} className={`flex-1 px-2 py-1 text-sm font-medium rounded-md transition ${mode === m ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>{m}</button>)}
+             </div>
+             <p className="text-xs text-gray-500">
+               {mode === WorkforceImportMode.MERGE ? 'Matching employees are updated and new ones added; everyone else stays.' : 'The file becomes the workforce; employees not in it are removed.'} Employees are matched by ID and name, so existing versions keep pointing at the same people.
+             </p>
+             {errors.length > 0 ? (
+               <div className="border border-red-200 bg-red-50 rounded-lg p-3 text-sm text-red-700 space-y-1 max-h-60 overflow-y-auto">
+                 {errors.map((err, i) => <div key={i} className="flex items-start gap-2"><AlertCircle className="w-4 h-4 shrink-0 mt-0.5" /> {err}</div>)}
+               </div>
+             ) : (
+               <div className="grid grid-cols-3 gap-2 text-center">
+                 <div className="bg-green-50 rounded-lg p-2"><div className="text-lg font-bold text-green-700">{result.added}</div><div className="text-xs text-gray-500">New</div></div>
+                 <div className="bg-blue-50 rounded-lg p-2"><div className="text-lg font-bold text-blue-700">{result.updated}</div><div className="text-xs text-gray-500">Updated</div></div>
+                 <div className="bg-red-50 rounded-lg p-2"><div className="text-lg font-bold text-red-700">{result.removed}</div><div className="text-xs text-gray-500">Removed</div></div>
+               </div>
+             )}
+             {errors.length === 0 && removedNames.length > 0 && <p className="text-xs text-red-600">Removed: {removedNames.join(', ')}</p>}
+          </div>
+          <div className="p-4 border-t bg-gray-50 rounded-b-xl flex justify-end gap-2">
+             <button onClick={onClose} className="px-4 py-2 text-gray-600">Cancel</button>
+             <button onClick={() => { onApply(result.employees); onClose(); }} disabled={errors.length > 0} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">Apply</button>
+          </div>
+       </div>
+    </div>
+  );
+};
+
 // --- Employee Manager Component ---
 const EmployeeManager: React.FC<{
   employees: Employee[];
+  shifts: ShiftDefinition[];
+  skills: Skill[];
   onAdd: (e: Employee) => void;
   onRemove: (id: string) => void;
   onUpdate: (e: Employee) => void;
-}> = ({ employees, onAdd, onRemove, onUpdate }) => {
+  onImportFile: (file: File) => void;
+}> = ({ employees, shifts, skills, onAdd, onRemove, onUpdate, onImportFile }) => {
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [newName, setNewName] = useState('');
   const [newPref, setNewPref] = useState<WorkerPreference>(WorkerPreference.EITHER);
   const [newDaysOff, setNewDaysOff] = useState<number[]>([]);
   const [newTargetShifts, setNewTargetShifts] = useState<string>('');
+  const [newTimeOff, setNewTimeOff] = useState<TimeOffEntry[]>([]);
+  const [newRequests, setNewRequests] = useState<ShiftRequest[]>([]);
+  const [newSkills, setNewSkills] = useState<string[]>([]);
 
   const resetForm = () => {
     setNewName('');
     setNewPref(WorkerPreference.EITHER);
     setNewDaysOff([]);
     setNewTargetShifts('');
+    setNewTimeOff([]);
+    setNewRequests([]);
+    setNewSkills([]);
     setEditingId(null);
     setIsAdding(false);
   };
@@ -149,6 +621,9 @@ const EmployeeManager: React.FC<{
     setNewPref(e.preference);
     setNewDaysOff(e.availability.daysOff);
     setNewTargetShifts(e.targetShifts ? e.targetShifts.toString() : '');
+    setNewTimeOff(e.availability.timeOff);
+    setNewRequests(e.shiftRequests);
+    setNewSkills(e.skills);
     setEditingId(e.id);
     setIsAdding(true);
   };
@@ -158,12 +633,12 @@ const EmployeeManager: React.FC<{
     const targetShifts = newTargetShifts ? parseInt(newTargetShifts) : undefined;
     if (editingId) {
       onUpdate({
-        id: editingId, name: newName, preference: newPref, availability: { daysOff: newDaysOff }, targetShifts,
+        id: editingId, name: newName, preference: newPref, availability: { daysOff: newDaysOff, timeOff: newTimeOff }, targetShifts, shiftRequests: newRequests, skills: newSkills,
         color: employees.find(e => e.id === editingId)?.color || '#fff'
       });
     } else {
       onAdd({
-        id: crypto.randomUUID(), name: newName, preference: newPref, availability: { daysOff: newDaysOff }, targetShifts,
+        id: crypto.randomUUID(), name: newName, preference: newPref, availability: { daysOff: newDaysOff, timeOff: newTimeOff }, targetShifts, shiftRequests: newRequests, skills: newSkills,
         color: `hsl(${Math.floor(Math.random() * 360)}, 70%, 80%)`
       });
     }
@@ -173,13 +648,20 @@ const EmployeeManager: React.FC<{
   const toggleDayOff = (dayIndex: number) => {
     setNewDaysOff(prev => prev.includes(dayIndex) ? prev.filter(d => d !== dayIndex) : [...prev, dayIndex]);
   };
+  const toggleSkill = (skillId: string) => {
+    setNewSkills(prev => prev.includes(skillId) ? prev.filter(s => s !== skillId) : [...prev, skillId]);
+  };
+  const skillName = (id: string) => skills.find(s => s.id === id)?.name;
   const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
   return (
     <div className="p-6 bg-white rounded-xl shadow-sm border border-gray-100">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2"><Users className="w-5 h-5 text-blue-600" /> Workforce</h2>
-        {!isAdding && <button onClick={startAdding} className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"><Plus className="w-4 h-4" /> Add Worker</button>}
+        <div className="flex items-center gap-2">
+          <SetupFileButtons label="the workforce" onImport={onImportFile} onExport={format => exportWorkforce(employees, skills, format)} />
+          {!isAdding && <button onClick={startAdding} className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"><Plus className="w-4 h-4" /> Add Worker</button>}
+        </div>
       </div>
       {isAdding && (
         <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-100">
@@ -201,6 +683,20 @@ const EmployeeManager: React.FC<{
              <label className="block text-sm font-medium mb-2">Unavailable Days</label>
              <div className="flex gap-2 flex-wrap">{days.map((d, i) => <button key={d} onClick={() => toggleDayOff(i)} className={`px-3 py-1 rounded-full text-sm border ${newDaysOff.includes(i) ? 'bg-red-100 text-red-700 border-red-200' : 'bg-white text-gray-600 border-gray-200'}`}>{d}</button>)}</div>
           </div>
+          {skills.length > 0 && (
+            <div className="mb-4">
+               <label className="block text-sm font-medium mb-2">Skills</label>
+               <div className="flex gap-2 flex-wrap">{skills.map(sk => <button key={sk.id} onClick={() => toggleSkill(sk.id)} className={`px-3 py-1 rounded-full text-sm border ${newSkills.includes(sk.id) ? 'bg-teal-100 text-teal-700 border-teal-200' : 'bg-white text-gray-600 border-gray-200'}`}>{sk.name}</button>)}</div>
+            </div>
+          )}
+          <div className="mb-4">
+             <label className="block text-sm font-medium mb-2">Time Off</label>
+             <TimeOffPicker entries={newTimeOff} shifts={shifts} onChange={setNewTimeOff} />
+          </div>
+          <div className="mb-4">
+             <label className="block text-sm font-medium mb-2">Shift Requests</label>
+             <ShiftRequestEditor requests={newRequests} shifts={shifts} onChange={setNewRequests} />
+          </div>
           <div className="flex justify-end gap-2">
             <button onClick={resetForm} className="text-gray-500 hover:text-gray-700 px-4 py-2">Cancel</button>
             <button onClick={handleSave} className="bg-blue-600 text-white px-4 py-2 rounded-lg">{editingId ? 'Save' : 'Add'}</button>
@@ -214,7 +710,10 @@ const EmployeeManager: React.FC<{
               <div className="font-semibold text-gray-900 flex gap-2 items-center">{e.name} {e.targetShifts && <span className="text-[10px] bg-green-100 text-green-700 px-1 rounded">Target: {e.targetShifts}</span>}</div>
               <div className="text-xs text-gray-500 mt-1 flex gap-2">
                 <span className={`px-2 py-0.5 rounded ${e.preference === WorkerPreference.DAY_ONLY ? 'bg-amber-100 text-amber-700' : e.preference === WorkerPreference.NIGHT_ONLY ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-200'}`}>{e.preference}</span>
+                {e.skills.filter(skillName).map(id => <span key={id} className="px-2 py-0.5 rounded bg-teal-100 text-teal-700">{skillName(id)}</span>)}
                 {e.availability.daysOff.length > 0 && <span className="text-red-500">Off: {e.availability.daysOff.map(d => days[d]).join(', ')}</span>}
+                {e.shiftRequests.length > 0 && <span className="text-blue-600 flex items-center gap-1"><Heart className="w-3 h-3" /> {e.shiftRequests.length} {e.shiftRequests.length === 1 ? 'request' : 'requests'}</span>}
+                {e.availability.timeOff.length > 0 && <span className="text-red-500 flex items-center gap-1"><CalendarOff className="w-3 h-3" /> {e.availability.timeOff.length} time off</span>}
               </div>
             </div>
             <div className="flex gap-1">
@@ -228,156 +727,879 @@ const EmployeeManager: React.FC<{
   );
 };
 
+// --- Holidays & Date Overrides ---
+const HolidayCalendar: React.FC<{ config: ShiftConfig; onUpdate: (c: ShiftConfig) => void; }> = ({ config, onUpdate }) => {
+  const icsRef = useRef<HTMLInputElement>(null);
+  const [newHoliday, setNewHoliday] = useState({ date: '', name: '' });
+  const [newOverrideDate, setNewOverrideDate] = useState('');
+  const holidays = [...config.holidays].sort((a, b) => a.date.localeCompare(b.date));
+  const overrides = [...config.dateOverrides].sort((a, b) => a.date.localeCompare(b.date));
+  const formatDate = (date: string) => parseDateKey(date).toLocaleDateString('default', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+  const updateHoliday = (id: string, patch: Partial<Holiday>) =>
+    onUpdate({ ...config, holidays: config.holidays.map(h => h.id === id ? { ...h, ...patch } : h) });
+  const toggleClosed = (h: Holiday, shiftId: string) =>
+    updateHoliday(h.id, { closedShiftIds: h.closedShiftIds.includes(shiftId) ? h.closedShiftIds.filter(id => id !== shiftId) : [...h.closedShiftIds, shiftId] });
+  const addHoliday = () => {
+    if (!newHoliday.date || !newHoliday.name.trim()) return;
+    if (getHoliday(config, newHoliday.date)) { alert(`${formatDate(newHoliday.date)} already has a holiday.`); return; }
+    onUpdate({ ...config, holidays: [...config.holidays, { id: crypto.randomUUID(), date: newHoliday.date, name: newHoliday.name.trim(), asWeekday: 0, closedShiftIds: [] }] });
+    setNewHoliday({ date: '', name: '' });
+  };
+  const importHolidays = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { holidays: found, recurring, skipped } = parseHolidaysICS(await file.text());
+      const fresh = found.filter((h, i) => !getHoliday(config, h.date) && found.findIndex(o => o.date === h.date) === i);
+      const notes = [
+        found.length > fresh.length && `${found.length - fresh.length} date(s) already have a holiday and are kept as they are.`,
+        recurring > 0 && `${recurring} repeating event(s) were taken for their first date only.`,
+        skipped > 0 && `${skipped} timed event(s) were ignored.`
+      ].filter(Boolean).join('\n');
+      if (fresh.length === 0) { alert(`No new all-day holidays found in ${file.name}.${notes ? `\n${notes}` : ''}`); return; }
+      if (!confirm(`Add ${fresh.length} holiday(s) from ${file.name}, staffed like a Sunday?${notes ? `\n\n${notes}` : ''}`)) return;
+      onUpdate({ ...config, holidays: [...config.holidays, ...fresh.map(h => ({ id: crypto.randomUUID(), date: h.date, name: h.name, asWeekday: 0, closedShiftIds: [] }))] });
+    } catch (err) { alert(`Could not import holidays: ${err instanceof Error ? err.message : err}`); console.error(err); }
+  };
+
+  const updateOverride = (date: string, patch: Partial<DateOverride>) =>
+    onUpdate({ ...config, dateOverrides: config.dateOverrides.map(o => o.date === date ? { ...o, ...patch } : o) });
+  // An empty count drops the shift from the override; a new entry starts from the calendar's skill minimums
+  const setOverrideCount = (o: DateOverride, shiftId: string, value: string) => {
+    const { [shiftId]: current, ...rest } = o.requirements;
+    if (value === '') { updateOverride(o.date, { requirements: rest }); return; }
+    const base = current ?? getCalendarRequirement(config, o.date, shiftId);
+    updateOverride(o.date, { requirements: { ...rest, [shiftId]: { ...base, count: Math.max(0, parseInt(value) || 0) } } });
+  };
+  const setOverrideSkill = (o: DateOverride, shiftId: string, skillId: string, min: number) =>
+    updateOverride(o.date, { requirements: { ...o.requirements, [shiftId]: { ...o.requirements[shiftId], skills: { ...o.requirements[shiftId].skills, [skillId]: min } } } });
+  const addOverride = () => {
+    if (!newOverrideDate) return;
+    if (getDateOverride(config, newOverrideDate)) { alert(`${formatDate(newOverrideDate)} already has an override.`); return; }
+    onUpdate({ ...config, dateOverrides: [...config.dateOverrides, { date: newOverrideDate, requirements: {} }] });
+    setNewOverrideDate('');
+  };
+
+  return (
+    <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Holidays</h3>
+          <input ref={icsRef} type="file" accept=".ics,text/calendar" onChange={importHolidays} className="hidden" />
+          <button onClick={() => icsRef.current?.click()} title="Import all-day events from a holiday calendar (.ics)" className="flex items-center gap-1 px-3 py-1 text-xs border rounded-lg text-gray-600 hover:bg-gray-50"><Upload className="w-3 h-3" /> Import .ics</button>
+        </div>
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {holidays.map(h => (
+            <div key={h.id} className="p-2 rounded border border-rose-100 bg-rose-50/40 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500 w-32 shrink-0">{formatDate(h.date)}</span>
+                <input value={h.name} onChange={e => updateHoliday(h.id, { name: e.target.value })} className="flex-1 min-w-0 p-1 border rounded bg-white text-black" />
+                <button onClick={() => onUpdate({ ...config, holidays: config.holidays.filter(o => o.id !== h.id) })} className="p-1 text-gray-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                <label className="flex items-center gap-1 text-gray-600">
+                  Staff like
+                  <select value={h.asWeekday ?? ''} onChange={e => updateHoliday(h.id, { asWeekday: e.target.value === '' ? undefined : Number(e.target.value) })} className="p-0.5 border rounded bg-white text-black">
+                    <option value="">its own weekday</option>
+                    {WEEKDAY_NAMES.map((d, idx) => <option key={d} value={idx}>a {d}</option>)}
+                  </select>
+                </label>
+                <span className="text-gray-400">Closed:</span>
+                {config.shifts.map(def => {
+                  const closed = h.closedShiftIds.includes(def.id);
+                  return (
+                    <button key={def.id} onClick={() => toggleClosed(h, def.id)} title={closed ? `Reopen ${def.name}` : `Close ${def.name}`} className={`px-2 py-0.5 rounded border ${closed ? 'line-through bg-gray-200 text-gray-500 border-gray-300' : 'bg-white'}`} style={closed ? undefined : { color: def.color, borderColor: shiftTint(def, '66') }}>{def.name}</button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          {holidays.length === 0 && <p className="text-xs text-gray-400">No holidays defined</p>}
+        </div>
+        <div className="flex gap-2 mt-3">
+          <input type="date" value={newHoliday.date} onChange={e => setNewHoliday({ ...newHoliday, date: e.target.value })} className="p-1 border rounded bg-white text-black text-sm" />
+          <input value={newHoliday.name} onChange={e => setNewHoliday({ ...newHoliday, name: e.target.value })} onKeyDown={e => e.key === 'Enter' && addHoliday()} placeholder="e.g. New Year's Day" className="flex-1 min-w-0 p-1 border rounded bg-white text-black text-sm" />
+          <button onClick={addHoliday} disabled={!newHoliday.date || !newHoliday.name.trim()} className="text-xs px-3 rounded bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 disabled:opacity-50 flex items-center gap-1"><Plus className="w-3 h-3" /> Add</button>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">A holiday is staffed like the chosen weekday, and closed shifts need nobody. Shifts not closed keep that weekday's requirements.</p>
+      </div>
+      <div>
+        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-3">Date Overrides</h3>
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {overrides.map(o => (
+            <div key={o.date} className="p-2 rounded border border-amber-100 bg-amber-50/40 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500 w-32 shrink-0">{formatDate(o.date)}</span>
+                <input value={o.note ?? ''} onChange={e => updateOverride(o.date, { note: e.target.value || undefined })} placeholder="Note, e.g. stocktake" className="flex-1 min-w-0 p-1 border rounded bg-white text-black" />
+                <button onClick={() => onUpdate({ ...config, dateOverrides: config.dateOverrides.filter(d => d.date !== o.date) })} className="p-1 text-gray-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+              </div>
+              <div className="flex flex-wrap gap-3 mt-2">
+                {config.shifts.map(def => {
+                  const req = o.requirements[def.id];
+                  return (
+                    <div key={def.id} className="text-xs">
+                      <label className="flex items-center gap-1 font-bold uppercase" style={{ color: def.color }}>
+                        {def.name}
+                        <input type="number" min="0" value={req?.count ?? ''} placeholder={String(getCalendarRequirement(config, o.date, def.id).count)} onChange={e => setOverrideCount(o, def.id, e.target.value)} className="w-12 p-1 border rounded text-center bg-white text-black font-normal" />
+                      </label>
+                      {req && config.skills.map(sk => (
+                        <label key={sk.id} className="flex items-center justify-end gap-1 mt-1 text-[10px] text-teal-700" title={`Minimum ${sk.name}`}>
+                          <span className="truncate max-w-[4rem]">{sk.name}</span>
+                          <input type="number" min="0" value={req.skills[sk.id] || 0} onChange={e => setOverrideSkill(o, def.id, sk.id, Math.max(0, parseInt(e.target.value) || 0))} className="w-10 p-0.5 border rounded text-center bg-white text-black" />
+                        </label>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          {overrides.length === 0 && <p className="text-xs text-gray-400">No date overrides</p>}
+        </div>
+        <div className="flex gap-2 mt-3">
+          <input type="date" value={newOverrideDate} onChange={e => setNewOverrideDate(e.target.value)} className="p-1 border rounded bg-white text-black text-sm" />
+          <button onClick={addOverride} disabled={!newOverrideDate} className="text-xs px-3 rounded bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 disabled:opacity-50 flex items-center gap-1"><Plus className="w-3 h-3" /> Add date</button>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">Set exact headcounts for single dates, e.g. peak days or events. Blank shifts follow the holiday or weekday (shown greyed); overrides win over holidays.</p>
+      </div>
+    </div>
+  );
+};
+
 // --- Config Panel ---
 const ConfigPanel: React.FC<{ config: ShiftConfig; onUpdate: (c: ShiftConfig) => void; }> = ({ config, onUpdate }) => {
   const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const updateReq = (dayIdx: number, shift: 'day' | 'night', val: number) => {
+  const [newSkillName, setNewSkillName] = useState('');
+  const updateReq = (dayIdx: number, shiftId: string, patch: Partial<ShiftRequirement>) => {
     const newReqs = { ...config.requirements };
-    if (!newReqs[dayIdx]) newReqs[dayIdx] = { day: 1, night: 1 };
-    newReqs[dayIdx] = { ...newReqs[dayIdx], [shift]: val };
+    newReqs[dayIdx] = { ...newReqs[dayIdx], [shiftId]: { ...getShiftRequirement(config, dayIdx, shiftId), ...patch } };
     onUpdate({ ...config, requirements: newReqs });
   };
+  const updateSkillMin = (dayIdx: number, shiftId: string, skillId: string, val: number) =>
+    updateReq(dayIdx, shiftId, { skills: { ...getShiftRequirement(config, dayIdx, shiftId).skills, [skillId]: val } });
+  const addSkill = () => {
+    if (!newSkillName.trim()) return;
+    onUpdate({ ...config, skills: [...config.skills, { id: crypto.randomUUID(), name: newSkillName.trim() }] });
+    setNewSkillName('');
+  };
+  const removeSkill = (id: string) => {
+    const requirements = Object.fromEntries(Object.entries(config.requirements).map(([idx, reqs]) => [
+      idx,
+      Object.fromEntries(Object.entries(reqs).map(([shiftId, req]) => {
+        const { [id]: _removed, ...skills } = req.skills;
+        return [shiftId, { ...req, skills }];
+      }))
+    ]));
+    const dateOverrides = config.dateOverrides.map(o => ({
+      ...o,
+      requirements: Object.fromEntries(Object.entries(o.requirements).map(([shiftId, req]) => {
+        const { [id]: _removed, ...skills } = req.skills;
+        return [shiftId, { ...req, skills }];
+      }))
+    }));
+    onUpdate({ ...config, skills: config.skills.filter(s => s.id !== id), requirements, dateOverrides });
+  };
+  const updateShift = (id: string, patch: Partial<ShiftDefinition>) =>
+    onUpdate({ ...config, shifts: config.shifts.map(s => s.id === id ? { ...s, ...patch } : s) });
+  const addShift = () => {
+    const id = crypto.randomUUID();
+    const requirements = Object.fromEntries(days.map((_, idx) => [idx, { ...config.requirements[idx], [id]: { count: 1, skills: {} } }]));
+    onUpdate({ ...config, shifts: [...config.shifts, { id, name: `Shift ${config.shifts.length + 1}`, startTime: '08:00', endTime: '16:00', color: '#0d9488', type: ShiftType.DAY }], requirements });
+  };
+  const removeShift = (id: string) => {
+    const requirements = Object.fromEntries(Object.entries(config.requirements).map(([idx, req]) => {
+      const { [id]: _removed, ...rest } = req;
+      return [idx, rest];
+    }));
+    const holidays = config.holidays.map(h => ({ ...h, closedShiftIds: h.closedShiftIds.filter(shiftId => shiftId !== id) }));
+    const dateOverrides = config.dateOverrides.map(o => {
+      const { [id]: _removed, ...rest } = o.requirements;
+      return { ...o, requirements: rest };
+    });
+    onUpdate({ ...config, shifts: config.shifts.filter(s => s.id !== id), requirements, holidays, dateOverrides });
+  };
+  const updateConstraints = (patch: Partial<HardConstraints>) => onUpdate({ ...config, constraints: { ...config.constraints, ...patch } });
+  const importRules = async (file: File) => {
+    try {
+      const { config: imported, errors } = parseRulesFile(await file.text(), file.name);
+      if (!imported) {
+        alert(`Could not import rules from ${file.name}:\n${errors.slice(0, 15).join('\n')}${errors.length > 15 ? `\n...and ${errors.length - 15} more` : ''}`);
+        return;
+      }
+      if (confirm(`Replace the current rules with ${imported.shifts.length} shifts, ${imported.skills.length} skills and their requirements from ${file.name}?`)) onUpdate(imported);
+    } catch (err) { alert(`Could not read rules file: ${err instanceof Error ? err.message : err}`); console.error(err); }
+  };
+  const limits: { key: 'maxConsecutiveDays' | 'minRestHours' | 'maxNightsPerWeek' | 'minDaysOffPer7Days'; label: string; unit: string; fallback: number; max: number }[] = [
+    { key: 'maxConsecutiveDays', label: 'Max consecutive working days', unit: 'days', fallback: 5, max: 31 },
+    { key: 'minRestHours', label: 'Min rest between shifts', unit: 'hours', fallback: 11, max: 48 },
+    { key: 'maxNightsPerWeek', label: 'Max night-type shifts per week (Sun-Sat)', unit: 'nights', fallback: 3, max: 7 },
+    { key: 'minDaysOffPer7Days', label: 'Min days off in any 7 days', unit: 'days', fallback: 1, max: 7 },
+  ];
   return (
     <div className="p-6 bg-white rounded-xl shadow-sm border border-gray-100">
-      <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center gap-2"><Settings className="w-5 h-5 text-blue-600" /> Shift Rules</h2>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2"><Settings className="w-5 h-5 text-blue-600" /> Shift Rules</h2>
+        <SetupFileButtons label="the rules" onImport={importRules} onExport={format => exportRules(config, format)} />
+      </div>
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <div>
            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-4">Daily Requirements</h3>
-           <div className="space-y-3">
-             {days.map((day, idx) => {
-               const req = config.requirements[idx] || { day: 1, night: 1 };
-               return (
-                 <div key={day} className="flex items-center justify-between text-sm">
-                    <span className="w-24 font-medium text-gray-700">{day}</span>
-                    <div className="flex gap-4">
-                      <div className="flex items-center gap-2"><span className="text-amber-600 text-xs font-bold">DAY</span><input type="number" min="0" value={req.day} onChange={e => updateReq(idx, 'day', parseInt(e.target.value))} className="w-12 p-1 border rounded text-center bg-white text-black" /></div>
-                      <div className="flex items-center gap-2"><span className="text-indigo-600 text-xs font-bold">NIGHT</span><input type="number" min="0" value={req.night} onChange={e => updateReq(idx, 'night', parseInt(e.target.value))} className="w-12 p-1 border rounded text-center bg-white text-black" /></div>
-                    </div>
-                 </div>
-               );
-             })}
+           <div className="overflow-x-auto">
+             <table className="w-full text-sm">
+               <thead>
+                 <tr>
+                   <th />
+                   {config.shifts.map(def => <th key={def.id} className="px-2 pb-2 text-xs font-bold uppercase text-center" style={{ color: def.color }}>{def.name}</th>)}
+                 </tr>
+               </thead>
+               <tbody>
+                 {days.map((day, idx) => (
+                   <tr key={day}>
+                     <td className="w-24 py-1 font-medium text-gray-700">{day}</td>
+                     {config.shifts.map(def => (
+                       <td key={def.id} className="px-2 py-1 text-center align-top">
+                         <input type="number" min="0" value={getRequiredCount(config, idx, def.id)} onChange={e => updateReq(idx, def.id, { count: Math.max(0, parseInt(e.target.value) || 0) })} className="w-12 p-1 border rounded text-center bg-white text-black" />
+                         {config.skills.map(sk => (
+                           <label key={sk.id} className="flex items-center justify-center gap-1 mt-1 text-[10px] text-teal-700" title={`Minimum ${sk.name}`}>
+                             <span className="truncate max-w-[4rem]">{sk.name}</span>
+                             <input type="number" min="0" value={getShiftRequirement(config, idx, def.id).skills[sk.id] || 0} onChange={e => updateSkillMin(idx, def.id, sk.id, Math.max(0, parseInt(e.target.value) || 0))} className="w-10 p-0.5 border rounded text-center bg-white text-black" />
+                           </label>
+                         ))}
+                       </td>
+                     ))}
+                   </tr>
+                 ))}
+               </tbody>
+             </table>
            </div>
         </div>
         <div className="space-y-6">
            <div className="bg-gray-50 p-4 rounded-lg">
-               <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">Timing</h3>
-               <div className="grid grid-cols-2 gap-4">
-                 <div><label className="text-xs font-bold text-amber-600 block mb-1">Day Start</label><input type="time" value={config.dayStartTime} onChange={e => onUpdate({...config, dayStartTime: e.target.value})} className="w-full p-2 border rounded bg-white text-black" /></div>
-                 <div><label className="text-xs font-bold text-indigo-600 block mb-1">Night Start</label><input type="time" value={config.nightStartTime} onChange={e => onUpdate({...config, nightStartTime: e.target.value})} className="w-full p-2 border rounded bg-white text-black" /></div>
+               <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">Shifts</h3>
+               <div className="space-y-2">
+                 {config.shifts.map(def => (
+                   <div key={def.id} className="flex flex-wrap items-center gap-2 text-sm">
+                     <input type="color" value={def.color} onChange={e => updateShift(def.id, { color: e.target.value })} className="w-8 h-8 p-0 border rounded bg-white" />
+                     <input value={def.name} onChange={e => updateShift(def.id, { name: e.target.value })} className="flex-1 min-w-[6rem] p-1 border rounded bg-white text-black" />
+                     <input type="time" value={def.startTime} onChange={e => updateShift(def.id, { startTime: e.target.value })} className="p-1 border rounded bg-white text-black" />
+                     <span className="text-gray-400">-</span>
+                     <input type="time" value={def.endTime} onChange={e => updateShift(def.id, { endTime: e.target.value })} className="p-1 border rounded bg-white text-black" />
+                     <select value={def.type} onChange={e => updateShift(def.id, { type: e.target.value as ShiftType })} className="p-1 border rounded bg-white text-black">
+                       <option value={ShiftType.DAY}>Day type</option>
+                       <option value={ShiftType.NIGHT}>Night type</option>
+                     </select>
+                     <button onClick={() => removeShift(def.id)} disabled={config.shifts.length === 1} className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"><Trash2 className="w-4 h-4" /></button>
+                   </div>
+                 ))}
+               </div>
+               <button onClick={addShift} className="mt-3 text-xs text-blue-600 flex items-center gap-1 hover:text-blue-800"><Plus className="w-3 h-3" /> Add shift</button>
+               <p className="mt-2 text-xs text-gray-500">The type decides which worker preferences fit the shift and what counts as a night. Shifts ending at or before their start run past midnight.</p>
+           </div>
+           <div className="bg-gray-50 p-4 rounded-lg">
+               <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">Skills &amp; Roles</h3>
+               <div className="flex flex-wrap gap-2 mb-3">
+                 {config.skills.map(sk => (
+                   <span key={sk.id} className="text-xs px-2 py-1 rounded bg-teal-100 text-teal-700 flex items-center gap-1">
+                     {sk.name}
+                     <button onClick={() => removeSkill(sk.id)} className="hover:text-red-600"><X className="w-3 h-3" /></button>
+                   </span>
+                 ))}
+                 {config.skills.length === 0 && <span className="text-xs text-gray-400">No skills defined</span>}
+               </div>
+               <div className="flex gap-2">
+                 <input value={newSkillName} onChange={e => setNewSkillName(e.target.value)} onKeyDown={e => e.key === 'Enter' && addSkill()} placeholder="e.g. Shift lead" className="flex-1 p-1 border rounded bg-white text-black text-sm" />
+                 <button onClick={addSkill} disabled={!newSkillName.trim()} className="text-xs px-3 rounded bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 disabled:opacity-50 flex items-center gap-1"><Plus className="w-3 h-3" /> Add</button>
                </div>
+               <p className="mt-2 text-xs text-gray-500">Skill minimums in the requirements table count towards the shift's headcount.</p>
            </div>
            <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 flex items-start gap-3">
                <button onClick={() => onUpdate({...config, distributeDayShiftsToEither: !config.distributeDayShiftsToEither})} className={`mt-0.5 relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${config.distributeDayShiftsToEither ? 'bg-blue-600' : 'bg-gray-200'}`}><span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${config.distributeDayShiftsToEither ? 'translate-x-6' : 'translate-x-1'}`} /></button>
-               <div><span className="block text-sm font-medium text-gray-900">Prioritize "Either" for Day Shifts</span></div>
+               <div><span className="block text-sm font-medium text-gray-900">Prioritize "Either" for Day-type Shifts</span></div>
            </div>
+           <div className="bg-gray-50 p-4 rounded-lg">
+               <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">Undesirable Shifts</h3>
+               <div className="flex flex-wrap gap-2 mb-3">
+                 {Object.values(UndesirableCategory).map(c => {
+                   const marked = config.undesirable.includes(c);
+                   return (
+                     <button key={c} onClick={() => onUpdate({ ...config, undesirable: marked ? config.undesirable.filter(u => u !== c) : [...config.undesirable, c] })} className={`text-xs px-3 py-1 rounded-full border ${marked ? 'bg-rose-100 text-rose-700 border-rose-200' : 'bg-white text-gray-500'}`}>{c}</button>
+                   );
+                 })}
+               </div>
+               <div className="flex items-center gap-1 text-xs text-gray-600">
+                 <span className="mr-1">Weekend:</span>
+                 {days.map((d, idx) => {
+                   const weekend = config.weekendDays.includes(idx);
+                   return (
+                     <button key={d} onClick={() => onUpdate({ ...config, weekendDays: weekend ? config.weekendDays.filter(w => w !== idx) : [...config.weekendDays, idx] })} className={`w-9 py-0.5 rounded border ${weekend ? 'bg-blue-100 text-blue-700 border-blue-200' : 'bg-white text-gray-400'}`}>{d.slice(0, 3)}</button>
+                   );
+                 })}
+               </div>
+               <p className="mt-2 text-xs text-gray-500">Marked kinds are shared out evenly on their own, before total shifts, and imported history or a continued month counts towards them.</p>
+           </div>
+           <div className="bg-gray-50 p-4 rounded-lg">
+               <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-3">Hard Constraints</h3>
+               <div className="space-y-3">
+                 {limits.map(l => {
+                   const value = config.constraints[l.key];
+                   return (
+                     <div key={l.key} className="flex items-center justify-between gap-2 text-sm">
+                       <label className="flex items-center gap-2 text-gray-700">
+                         <input type="checkbox" checked={value !== null} onChange={e => updateConstraints({ [l.key]: e.target.checked ? l.fallback : null })} />
+                         {l.label}
+                       </label>
+                       <div className="flex items-center gap-1">
+                         <input type="number" min="0" max={l.max} disabled={value === null} value={value ?? ''} onChange={e => updateConstraints({ [l.key]: Math.max(0, parseInt(e.target.value) || 0) })} className="w-14 p-1 border rounded text-center bg-white text-black disabled:bg-gray-100 disabled:text-gray-400" />
+                         <span className="text-xs text-gray-500 w-10">{l.unit}</span>
+                       </div>
+                     </div>
+                   );
+                 })}
+                 <p className="text-xs text-gray-500">Rest is measured between the actual shift times, and overlapping shifts are never allowed.</p>
+               </div>
+           </div>
+        </div>
+      </div>
+      <HolidayCalendar config={config} onUpdate={onUpdate} />
+    </div>
+  );
+};
+
+// --- Solver Report ---
+const SolverReportCard: React.FC<{ report: SolverReport; seed?: number; onReproduce: () => void }> = ({ report, seed, onReproduce }) => {
+  const rows: { label: string; key: 'uncoveredSlots' | 'unmetSkills' | 'targetDeviation' | 'deniedRequests' | 'undesirableSpread' | 'unfairness' | 'total' }[] = [
+    { label: 'Uncovered slots', key: 'uncoveredSlots' },
+    { label: 'Unmet skills', key: 'unmetSkills' },
+    { label: 'Target deviation', key: 'targetDeviation' },
+    { label: 'Denied requests (weighted)', key: 'deniedRequests' },
+    { label: 'Undesirable shift spread', key: 'undesirableSpread' },
+    { label: 'Unfairness', key: 'unfairness' },
+    { label: 'Weighted score', key: 'total' },
+  ];
+  const optimizer = report.optimizer;
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Solver Report</h3>
+        <div className="flex items-center gap-2">
+          {seed !== undefined && (
+            <button onClick={onReproduce} title="Generate again with this seed, engine, locks and the history it was made from; identical while employees and rules are unchanged" className="text-xs text-gray-500 hover:text-blue-600 flex items-center gap-1"><RefreshCw className="w-3 h-3" /> Seed {seed}</button>
+          )}
+          <span className="text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded">{report.engine}</span>
+        </div>
+      </div>
+      <table className="w-full text-sm">
+        <thead className="text-gray-500 text-xs">
+          <tr><th className="text-left py-1">Metric (lower is better)</th><th className="text-center py-1">Greedy</th>{optimizer && <th className="text-center py-1">Optimizer</th>}</tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map(r => (
+            <tr key={r.key} className={r.key === 'total' ? 'font-bold' : ''}>
+              <td className="py-1 text-gray-700">{r.label}</td>
+              <td className="py-1 text-center text-gray-900">{report.greedy[r.key]}</td>
+              {optimizer && <td className={`py-1 text-center ${optimizer[r.key] < report.greedy[r.key] ? 'text-green-600' : 'text-gray-900'}`}>{optimizer[r.key]}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// --- Violations Panel ---
+const ViolationsPanel: React.FC<{ violations: ScheduleViolation[] }> = ({ violations }) => {
+  const [showWarnings, setShowWarnings] = useState(false);
+  const errors = violations.filter(v => v.severity === ViolationSeverity.ERROR);
+  const warnings = violations.filter(v => v.severity === ViolationSeverity.WARNING);
+  const shown = showWarnings ? violations : errors;
+  const fmt = (key: string) => parseDateKey(key).toLocaleDateString('default', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Violations</h3>
+        <div className="flex items-center gap-2 text-xs">
+          <span className={`px-2 py-0.5 rounded ${errors.length > 0 ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>{errors.length} {errors.length === 1 ? 'error' : 'errors'}</span>
+          <button onClick={() => setShowWarnings(w => !w)} className={`px-2 py-0.5 rounded border ${showWarnings ? 'bg-amber-100 text-amber-800 border-amber-200' : 'bg-white text-gray-600 border-gray-200'}`}>{warnings.length} {warnings.length === 1 ? 'warning' : 'warnings'}</button>
         </div>
       </div>
+      {shown.length === 0 ? (
+        <div className="text-sm text-green-700 flex items-center gap-2"><CheckCircle className="w-4 h-4" /> {errors.length === 0 && !showWarnings ? 'No hard rules broken' : 'Nothing to report'}</div>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+          {shown.map((v, i) => (
+            <li key={i} className="flex items-start gap-2">
+              {v.severity === ViolationSeverity.ERROR ? <AlertTriangle className="w-4 h-4 text-red-600 shrink-0 mt-0.5" /> : <AlertCircle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />}
+              <span className="text-gray-500 w-28 shrink-0">{fmt(v.date)}</span>
+              <span className="text-gray-800">{v.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// --- Audit Log ---
+const AuditLogPanel: React.FC<{ entries: AuditEntry[]; shifts: ShiftDefinition[] }> = ({ entries, shifts }) => {
+  const fmt = (key: string) => parseDateKey(key).toLocaleDateString('default', { month: 'short', day: 'numeric' });
+  const shiftName = (id: string) => shifts.find(s => s.id === id)?.name ?? id;
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+      <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-3 flex items-center gap-2"><ScrollText className="w-4 h-4" /> Audit Log</h3>
+      {entries.length === 0 ? <div className="text-xs text-gray-400">No manual edits yet</div> : (
+        <ul className="space-y-3 max-h-[600px] overflow-y-auto">
+          {[...entries].reverse().map(entry => (
+            <li key={entry.id} className="text-xs border-l-2 border-gray-200 pl-2">
+              <div className="text-gray-400">{new Date(entry.timestamp).toLocaleString()}</div>
+              {entry.changes.map((c, i) => (
+                <div key={i} className={c.action === AuditAction.ADDED ? 'text-green-700' : 'text-red-700'}>
+                  {c.action === AuditAction.ADDED ? '+' : '-'} {c.employeeName} <span className="text-gray-500">{fmt(c.date)}, {shiftName(c.shiftId)}</span>
+                </div>
+              ))}
+              {entry.reason && <div className="text-gray-600 italic">"{entry.reason}"</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// --- Print Layouts ---
+// Rendered only when printing (hidden on screen). Each layout sets its own page orientation.
+type PrintLayout = { kind: 'month' } | { kind: 'week' } | { kind: 'employee'; employeeId?: string };
+
+const PrintHeader: React.FC<{ version: ScheduleVersion; title: string; shifts: ShiftDefinition[] }> = ({ version, title, shifts }) => (
+  <div className="mb-2 border-b border-gray-400 pb-1">
+    <div className="flex justify-between items-baseline">
+      <h2 className="text-base font-bold text-black">{title}</h2>
+      <span className="text-[9px] text-gray-600">{version.name} · Generated {new Date(version.timestamp).toLocaleString()}</span>
+    </div>
+    <div className="flex flex-wrap gap-3 mt-1 text-[9px] text-gray-700">
+      {shifts.map(def => (
+        <span key={def.id} className="flex items-center gap-1">
+          <span className="inline-block w-2.5 h-2.5 rounded-sm border" style={{ backgroundColor: shiftTint(def, '55'), borderColor: def.color }} />
+          {def.name} {def.startTime}–{def.endTime}
+        </span>
+      ))}
+    </div>
+  </div>
+);
+
+const PrintSlot: React.FC<{ def: ShiftDefinition; names: string[] }> = ({ def, names }) => (
+  <div className="rounded-sm px-1 py-0.5 mb-0.5 leading-tight" style={{ backgroundColor: shiftTint(def, '26'), borderLeft: `2px solid ${def.color}` }}>
+    {names.map((n, i) => <div key={i} className="break-words">{n}</div>)}
+  </div>
+);
+
+const PrintRoster: React.FC<{ version: ScheduleVersion; employees: Employee[]; config: ShiftConfig; layout: PrintLayout }> = ({ version, employees, config, layout }) => {
+  const shifts = getVersionShifts(version.schedule, config);
+  const monthTitle = new Date(version.year, version.month, 1).toLocaleString('default', { month: 'long', year: 'numeric' });
+  const nameOf = (id: string) => employees.find(e => e.id === id)?.name ?? 'Unknown';
+  const dayLabel = (date: string) => parseDateKey(date).toLocaleDateString('default', { weekday: 'short', day: 'numeric', month: 'short' });
+  const weeks = Array.from({ length: Math.ceil(version.schedule.length / 7) }, (_, w) => version.schedule.slice(w * 7, w * 7 + 7));
+  const landscape = layout.kind !== 'employee';
+  const people = layout.kind === 'employee' && layout.employeeId ? employees.filter(e => e.id === layout.employeeId) : employees;
+
+  return (
+    <div className="hidden print:block text-black bg-white">
+      <style>{`@page { size: A4 ${landscape ? 'landscape' : 'portrait'}; margin: 8mm; } body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }`}</style>
+
+      {layout.kind === 'month' && (
+        <div className="break-inside-avoid">
+          <PrintHeader version={version} title={`Roster · ${monthTitle}`} shifts={shifts} />
+          <div className="grid grid-cols-7 border-l border-t border-gray-400 text-[8px]">
+            {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(d => <div key={d} className="border-r border-b border-gray-400 text-center font-bold py-0.5">{d}</div>)}
+            {version.schedule.map(day => (
+              <div key={day.date} className={`border-r border-b border-gray-400 p-0.5 ${day.isPadding ? 'text-gray-400' : ''}`}>
+                <div className="flex justify-between gap-1 font-bold"><span className="truncate font-normal italic">{getHoliday(config, day.date)?.name}</span>{parseDateKey(day.date).getDate()}</div>
+                {!day.isPadding && shifts.map(def => {
+                  const ids = getAssigned(day, def.id);
+                  return ids.length > 0 && <PrintSlot key={def.id} def={def} names={ids.map(nameOf)} />;
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {layout.kind === 'week' && weeks.map((week, w) => (
+        <div key={w} className={w < weeks.length - 1 ? 'break-after-page' : ''}>
+          <PrintHeader version={version} title={`Roster · ${dayLabel(week[0].date)} – ${dayLabel(week[week.length - 1].date)}`} shifts={shifts} />
+          <table className="w-full border-collapse text-[10px] table-fixed">
+            <thead>
+              <tr>
+                <th className="border border-gray-400 p-1 w-24 text-left">Shift</th>
+                {week.map(day => <th key={day.date} className={`border border-gray-400 p-1 ${day.isPadding ? 'text-gray-400' : ''}`}>{dayLabel(day.date)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {shifts.map(def => (
+                <tr key={def.id} className="break-inside-avoid">
+                  <td className="border border-gray-400 p-1 align-top" style={{ backgroundColor: shiftTint(def, '26') }}>
+                    <div className="font-bold" style={{ color: def.color }}>{def.name}</div>
+                    <div className="text-[9px] text-gray-600">{def.startTime}–{def.endTime}</div>
+                  </td>
+                  {week.map(day => (
+                    <td key={day.date} className={`border border-gray-400 p-1 align-top ${day.isPadding ? 'text-gray-400' : ''}`}>
+                      {getAssigned(day, def.id).map((id, i) => <div key={i} className="break-words">{nameOf(id)}</div>)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      {layout.kind === 'employee' && people.map((emp, idx) => {
+        const worked = version.schedule.filter(day => !day.isPadding).flatMap(day => {
+          const shiftId = findEmployeeShift(day, emp.id);
+          const def = shiftId ? shifts.find(s => s.id === shiftId) : undefined;
+          return def ? [{ date: day.date, def }] : [];
+        });
+        const hours = worked.reduce((sum, w) => sum + (config.shifts.includes(w.def) ? getShiftDurationHours(w.def) : 0), 0);
+        return (
+          <div key={emp.id} className={idx < people.length - 1 ? 'break-after-page' : ''}>
+            <PrintHeader version={version} title={`My shifts · ${emp.name} · ${monthTitle}`} shifts={shifts} />
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr className="text-left">
+                  <th className="border border-gray-400 p-1">Date</th>
+                  <th className="border border-gray-400 p-1">Shift</th>
+                  <th className="border border-gray-400 p-1">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {worked.map(w => (
+                  <tr key={w.date} className="break-inside-avoid">
+                    <td className="border border-gray-400 p-1">{parseDateKey(w.date).toLocaleDateString('default', { weekday: 'long', day: 'numeric', month: 'long' })}</td>
+                    <td className="border border-gray-400 p-1" style={{ backgroundColor: shiftTint(w.def, '26') }}>{w.def.name}</td>
+                    <td className="border border-gray-400 p-1">{w.def.startTime}–{w.def.endTime}</td>
+                  </tr>
+                ))}
+                {worked.length === 0 && <tr><td colSpan={3} className="border border-gray-400 p-2 text-center text-gray-500">No shifts this month</td></tr>}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs">{worked.length} shifts · {Math.round(hours * 10) / 10} hours{emp.targetShifts ? ` · target ${emp.targetShifts}` : ''}</p>
+          </div>
+        );
+      })}
     </div>
   );
 };
 
 // --- Schedule Viewer ---
+const FAIRNESS_BADGE: Record<FairnessLevel, string> = {
+  [FairnessLevel.BALANCED]: 'bg-green-100 text-green-700',
+  [FairnessLevel.UNEVEN]: 'bg-amber-100 text-amber-700',
+  [FairnessLevel.UNFAIR]: 'bg-red-100 text-red-700'
+};
+
 const ScheduleViewer: React.FC<{
   version: ScheduleVersion;
   employees: Employee[];
   config: ShiftConfig;
-  onManualUpdate: (date: string, shift: ShiftType, empId: string) => void;
-}> = ({ version, employees, config, onManualUpdate }) => {
+  onEdit: (edit: RosterEdit, reason?: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onUpdateLocks: (version: ScheduleVersion) => void;
+  onRegenerate: () => void;
+  onReproduce: () => void;
+}> = ({ version, employees, config, onEdit: applyEdit, canUndo, canRedo, onUndo, onRedo, onUpdateLocks, onRegenerate, onReproduce }) => {
   const [view, setView] = useState<'calendar' | 'stats'>('calendar');
   const [modalOpen, setModalOpen] = useState(false);
-  const [manualSlot, setManualSlot] = useState<{ date: string, shift: ShiftType } | null>(null);
+  const [manualSlot, setManualSlot] = useState<SlotRef | null>(null);
+  const [explainSlot, setExplainSlot] = useState<SlotRef | null>(null);
+  const [dragging, setDragging] = useState<{ slot: SlotRef; employeeId: string } | null>(null);
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  const [calendarMenuOpen, setCalendarMenuOpen] = useState(false);
+  const [printMenuOpen, setPrintMenuOpen] = useState(false);
+  // Layout used by the browser's print dialog; printRequest triggers it once the layout has rendered
+  const [printLayout, setPrintLayout] = useState<PrintLayout>({ kind: 'month' });
+  const [printRequest, setPrintRequest] = useState(0);
+  const shifts = useMemo(() => getVersionShifts(version.schedule, config), [version.schedule, config]);
+  const distributions = useMemo(() => summarizeUndesirable(version.stats, employees, config), [version.stats, employees, config]);
   
   const getEmp = (id: string) => employees.find(e => e.id === id);
-  const openManualAssign = (date: string, shift: ShiftType) => { setManualSlot({ date, shift }); setModalOpen(true); };
+  const shiftName = (id: string) => shifts.find(s => s.id === id)?.name ?? id;
+  const skillName = (id: string) => config.skills.find(s => s.id === id)?.name ?? id;
+  const openManualAssign = (date: string, shiftId: string) => { setManualSlot({ date, shiftId }); setModalOpen(true); };
+  const violations = useMemo(() => validateSchedule(version, employees, config), [version, employees, config]);
+  const [editReason, setEditReason] = useState('');
+  const onEdit = (edit: RosterEdit) => applyEdit(edit, editReason.trim());
+  const printAs = (layout: PrintLayout) => { setPrintLayout(layout); setPrintRequest(n => n + 1); };
+
+  useEffect(() => {
+    if (printRequest > 0) window.print();
+  }, [printRequest]);
+
+  // Drag a name onto a shift to move it, or onto another name to swap the two
+  const startDrag = (e: React.DragEvent, slot: SlotRef, employeeId: string) => {
+    e.dataTransfer.setData('text/plain', employeeId);
+    e.dataTransfer.effectAllowed = 'move';
+    setDragging({ slot, employeeId });
+  };
+  const endDrag = () => { setDragging(null); setDropKey(null); };
+  const allowDrop = (e: React.DragEvent, key: string) => {
+    if (!dragging) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropKey(key);
+  };
+  const dropOnSlot = (e: React.DragEvent, slot: SlotRef) => {
+    e.preventDefault();
+    if (dragging) onEdit({ type: 'move', from: dragging.slot, to: slot, employeeId: dragging.employeeId });
+    endDrag();
+  };
+  const dropOnWorker = (e: React.DragEvent, slot: SlotRef, employeeId: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragging) onEdit({ type: 'swap', a: dragging.slot, aEmployeeId: dragging.employeeId, b: slot, bEmployeeId: employeeId });
+    endDrag();
+  };
+  const errorsOn = (date: string) => violations.filter(v => v.date === date && v.severity === ViolationSeverity.ERROR);
+
+  // Candidates for the open slot, those who break no hard rule first
+  const candidates = useMemo(() => {
+    if (!manualSlot) return [];
+    return employees
+      .map(e => ({ emp: e, rules: checkCandidate(version, config, e, manualSlot.date, manualSlot.shiftId) }))
+      .sort((a, b) => (a.rules.length > 0 ? 1 : 0) - (b.rules.length > 0 ? 1 : 0));
+  }, [manualSlot, employees, version, config]);
 
   return (
-    <div className="space-y-6">
+    <>
+    <div className="space-y-6 print:hidden">
        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-white p-4 rounded-xl shadow-sm border border-gray-100">
           <div>
             <h2 className="text-xl font-bold text-gray-800">{version.name}</h2>
             <p className="text-sm text-gray-500">Generated: {new Date(version.timestamp).toLocaleString()}</p>
           </div>
           <div className="flex gap-2">
+             <button onClick={onRegenerate} title="Keep pinned days and workers, re-solve everything else into a new version" className="flex items-center gap-2 bg-white border border-blue-200 text-blue-700 px-3 py-2 rounded-lg text-sm hover:bg-blue-50"><RefreshCw className="w-4 h-4" /> Regenerate unlocked{countLocks(version.locks) > 0 && <span className="text-xs bg-blue-100 px-1.5 rounded">{countLocks(version.locks)} pinned</span>}</button>
              <div className="flex bg-gray-100 rounded-lg p-1">
                 <button onClick={() => setView('calendar')} className={`px-3 py-1.5 text-sm font-medium rounded-md transition ${view === 'calendar' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>Calendar</button>
                 <button onClick={() => setView('stats')} className={`px-3 py-1.5 text-sm font-medium rounded-md transition ${view === 'stats' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>Stats</button>
              </div>
-             <button onClick={() => exportToCSV(version, employees)} className="flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-green-700"><Download className="w-4 h-4" /> CSV</button>
-             <button onClick={() => exportToExcel(version, employees)} className="flex items-center gap-2 bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-emerald-700"><FileSpreadsheet className="w-4 h-4" /> Excel</button>
+             <button onClick={() => exportToCSV(version, employees, config)} className="flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-green-700"><Download className="w-4 h-4" /> CSV</button>
+             <button onClick={() => exportToExcel(version, employees, config)} className="flex items-center gap-2 bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-emerald-700"><FileSpreadsheet className="w-4 h-4" /> Excel</button>
+             <div className="relative">
+                <button onClick={() => setCalendarMenuOpen(o => !o)} className="flex items-center gap-2 bg-sky-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-sky-700"><CalendarPlus className="w-4 h-4" /> Calendar</button>
+                {calendarMenuOpen && (
+                  <div className="absolute right-0 mt-1 w-56 bg-white border rounded-lg shadow-lg z-20 py-1 text-sm max-h-80 overflow-y-auto" onClick={() => setCalendarMenuOpen(false)}>
+                     <button onClick={() => exportRosterICS(version, employees, config)} className="w-full text-left px-3 py-1.5 hover:bg-gray-50 text-gray-800">Whole roster (.ics)</button>
+                     <button onClick={() => exportAllICS(version, employees, config)} className="w-full text-left px-3 py-1.5 hover:bg-gray-50 text-gray-800">Every employee (.zip)</button>
+                     <div className="border-t my-1"></div>
+                     {employees.map(e => (
+                       <button key={e.id} onClick={() => exportEmployeeICS(version, employees, config, e.id)} className="w-full text-left px-3 py-1.5 hover:bg-gray-50 text-gray-600 truncate">{e.name}</button>
+                     ))}
+                  </div>
+                )}
+             </div>
+             <div className="relative">
+                <button onClick={() => setPrintMenuOpen(o => !o)} className="flex items-center gap-2 bg-slate-700 text-white px-4 py-2 rounded-lg text-sm hover:bg-slate-800"><Printer className="w-4 h-4" /> Print</button>
+                {printMenuOpen && (
+                  <div className="absolute right-0 mt-1 w-56 bg-white border rounded-lg shadow-lg z-20 py-1 text-sm max-h-80 overflow-y-auto" onClick={() => setPrintMenuOpen(false)}>
+                     <button onClick={() => printAs({ kind: 'month' })} className="w-full text-left px-3 py-1.5 hover:bg-gray-50 text-gray-800">Month on one page</button>
+                     <button onClick={() => printAs({ kind: 'week' })} className="w-full text-left px-3 py-1.5 hover:bg-gray-50 text-gray-800">One week per page</button>
+                     <button onClick={() => printAs({ kind: 'employee' })} className="w-full text-left px-3 py-1.5 hover:bg-gray-50 text-gray-800">My shifts, everyone</button>
+                     <div className="border-t my-1"></div>
+                     {employees.map(e => (
+                       <button key={e.id} onClick={() => printAs({ kind: 'employee', employeeId: e.id })} className="w-full text-left px-3 py-1.5 hover:bg-gray-50 text-gray-600 truncate">My shifts: {e.name}</button>
+                     ))}
+                  </div>
+                )}
+             </div>
           </div>
        </div>
 
+       {version.solverReport && <SolverReportCard report={version.solverReport} seed={version.seed} onReproduce={onReproduce} />}
+
+       <ViolationsPanel violations={violations} />
+
        {view === 'calendar' ? (
-         <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+         <div className="xl:col-span-3 bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="flex items-center gap-2 p-2 border-b">
+               <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30"><Undo2 className="w-4 h-4" /></button>
+               <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Y)" className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30"><Redo2 className="w-4 h-4" /></button>
+               <input value={editReason} onChange={e => setEditReason(e.target.value)} placeholder="Reason for edits (optional, recorded in the audit log)" className="flex-1 text-xs p-1.5 border rounded bg-white text-black" />
+            </div>
             <div className="grid grid-cols-7 bg-gray-50 border-b text-center py-2 text-xs font-bold text-gray-500 uppercase">
                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(d => <div key={d}>{d}</div>)}
             </div>
             <div className="grid grid-cols-7 auto-rows-fr bg-gray-200 gap-px">
                {version.schedule.map((daySch) => {
-                 const dateObj = new Date(daySch.date);
-                 const req = config.requirements[dateObj.getDay()] || { day: 1, night: 1 };
-                 const missingDay = req.day - daySch.dayShift.length;
-                 const missingNight = req.night - daySch.nightShift.length;
+                 const dateObj = parseDateKey(daySch.date);
+                 const offToday = employees
+                   .map(e => ({ emp: e, entries: getTimeOffOn(e, daySch.date) }))
+                   .filter(o => o.entries.length > 0);
+                 const dayErrors = errorsOn(daySch.date);
+                 const holiday = getHoliday(config, daySch.date);
+                 const override = getDateOverride(config, daySch.date);
+                 const dayLocked = isDayLocked(version.locks, daySch.date);
+                 const editable = !daySch.isPadding && !dayLocked;
 
                  return (
-                   <div key={daySch.date} className={`min-h-[120px] p-2 flex flex-col gap-1 ${daySch.isPadding ? 'bg-gray-100' : 'bg-white'}`}>
-                      <div className={`text-right text-sm font-bold mb-1 ${daySch.isPadding ? 'text-gray-300' : 'text-gray-500'}`}>{dateObj.getDate()}</div>
-                      
-                      {/* Day Shift */}
-                      <div className="bg-amber-50 rounded p-1 border border-amber-100">
-                         <div className="text-[10px] font-bold text-amber-600 uppercase mb-1">Day</div>
-                         <div className="space-y-1">
-                           {daySch.dayShift.map(id => (
-                             <div key={id} className={`text-xs px-1.5 py-0.5 rounded shadow-sm text-gray-700 truncate ${daySch.isPadding ? 'bg-gray-200 opacity-60' : 'bg-white'}`}>{getEmp(id)?.name}</div>
-                           ))}
-                           {!daySch.isPadding && missingDay > 0 && Array.from({length: missingDay}).map((_, i) => (
-                               <button key={i} onClick={() => openManualAssign(daySch.date, ShiftType.DAY)} className="w-full text-left text-xs px-1.5 py-1 bg-red-100 text-red-700 rounded flex items-center gap-1 hover:bg-red-200"><AlertCircle className="w-3 h-3" /> Empty</button>
-                           ))}
-                         </div>
-                      </div>
-                      {/* Night Shift */}
-                      <div className="bg-indigo-50 rounded p-1 border border-indigo-100 mt-auto">
-                         <div className="text-[10px] font-bold text-indigo-600 uppercase mb-1">Night</div>
-                         <div className="space-y-1">
-                           {daySch.nightShift.map(id => (
-                             <div key={id} className={`text-xs px-1.5 py-0.5 rounded shadow-sm text-white truncate ${daySch.isPadding ? 'bg-indigo-300 opacity-60' : 'bg-indigo-700'}`}>{getEmp(id)?.name}</div>
-                           ))}
-                           {!daySch.isPadding && missingNight > 0 && Array.from({length: missingNight}).map((_, i) => (
-                               <button key={i} onClick={() => openManualAssign(daySch.date, ShiftType.NIGHT)} className="w-full text-left text-xs px-1.5 py-1 bg-red-100 text-red-700 rounded flex items-center gap-1 hover:bg-red-200"><AlertCircle className="w-3 h-3" /> Empty</button>
-                           ))}
-                         </div>
+                   <div key={daySch.date} className={`group/day min-h-[120px] p-2 flex flex-col gap-1 ${daySch.isPadding ? 'bg-gray-100' : dayLocked ? 'bg-slate-50 ring-1 ring-inset ring-slate-300' : 'bg-white'}`}>
+                      <div className="flex justify-between items-start mb-1">
+                        {offToday.length > 0 ? (
+                          <span
+                            title={offToday.map(o => `${o.emp.name}: ${o.entries.map(t => (t.shiftId ? `${shiftName(t.shiftId)} off` : 'Off') + (t.reason ? ` (${t.reason})` : '')).join(', ')}`).join('\n')}
+                            className="flex items-center gap-0.5 text-[10px] font-bold text-red-600 bg-red-50 rounded px-1"
+                          >
+                            <CalendarOff className="w-3 h-3" /> {offToday.length}
+                          </span>
+                        ) : <span />}
+                        {dayErrors.length > 0 && (
+                          <span title={dayErrors.map(v => v.message).join('\n')} className="flex items-center gap-0.5 text-[10px] font-bold text-white bg-red-600 rounded px-1">
+                            <AlertTriangle className="w-3 h-3" /> {dayErrors.length}
+                          </span>
+                        )}
+                        <div className="flex items-center gap-1">
+                          {!daySch.isPadding && (
+                            <button onClick={() => onUpdateLocks(toggleDayLock(version, daySch.date))} title={dayLocked ? 'Unlock day' : 'Lock whole day'} className={dayLocked ? 'text-slate-600' : 'text-gray-300 opacity-0 group-hover/day:opacity-100 hover:text-slate-600'}>
+                              {dayLocked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                            </button>
+                          )}
+                          <div className={`text-right text-sm font-bold ${daySch.isPadding ? 'text-gray-300' : holiday ? 'text-rose-600' : 'text-gray-500'}`}>{dateObj.getDate()}</div>
+                        </div>
                       </div>
+                      {(holiday || override) && (
+                        <div
+                          title={[
+                            holiday && `${holiday.name}${holiday.asWeekday !== undefined ? `: staffed like a ${WEEKDAY_NAMES[holiday.asWeekday]}` : ''}${holiday.closedShiftIds.length > 0 ? `, ${holiday.closedShiftIds.map(shiftName).join(' and ')} closed` : ''}`,
+                            override && `Date override${override.note ? ` (${override.note})` : ''}: ${Object.entries(override.requirements).map(([id, req]) => `${shiftName(id)} ${req.count}`).join(', ') || 'no changes'}`
+                          ].filter(Boolean).join('\n')}
+                          className={`flex items-center gap-1 text-[10px] font-semibold rounded px-1 truncate ${holiday ? 'text-rose-700 bg-rose-50' : 'text-amber-700 bg-amber-50'} ${daySch.isPadding ? 'opacity-50' : ''}`}
+                        >
+                          <Flag className="w-3 h-3 shrink-0" /> <span className="truncate">{holiday?.name ?? override?.note ?? 'Special staffing'}</span>{holiday && override && <span className="text-amber-700">*</span>}
+                        </div>
+                      )}
+                      
+                      {shifts.map((def, shiftIdx) => {
+                        const slot: SlotRef = { date: daySch.date, shiftId: def.id };
+                        const slotKey = `${daySch.date}:${def.id}`;
+                        const assigned = getAssigned(daySch, def.id);
+                        const configured = config.shifts.includes(def);
+                        const missing = configured ? getDateRequiredCount(config, daySch.date, def.id) - assigned.length : 0;
+                        const unmet = daySch.isPadding ? [] : findUnmetSkills(daySch, def.id, employees, config);
+                        const droppable = editable && configured;
+                        const explanation = findExplanation(version, slot);
+                        // Unstaffed shifts with nothing to flag only appear while dragging, as drop targets
+                        if (assigned.length === 0 && missing <= 0 && unmet.length === 0 && !(droppable && dragging)) return null;
+                        return (
+                          <div
+                            key={def.id}
+                            onDragOver={droppable ? e => allowDrop(e, slotKey) : undefined}
+                            onDragLeave={() => setDropKey(k => k === slotKey ? null : k)}
+                            onDrop={droppable ? e => dropOnSlot(e, slot) : undefined}
+                            className={`rounded p-1 border ${shiftIdx === shifts.length - 1 ? 'mt-auto' : ''} ${dropKey === slotKey ? 'ring-2 ring-blue-400' : ''}`}
+                            style={{ backgroundColor: shiftTint(def), borderColor: shiftTint(def, '33') }}
+                          >
+                             {explanation ? (
+                               <button onClick={() => setExplainSlot(slot)} title="Why these workers?" className="w-full flex items-center gap-1 text-[10px] font-bold uppercase mb-1 hover:underline" style={{ color: def.color }}>{def.name} <Info className="w-3 h-3 opacity-60" /></button>
+                             ) : <div className="text-[10px] font-bold uppercase mb-1" style={{ color: def.color }}>{def.name}</div>}
+                             <div className="space-y-1">
+                               {assigned.map((id, i) => {
+                                 const broken = dayErrors.filter(v => v.shiftId === def.id && v.employeeId === id);
+                                 const workerKey = `${slotKey}:${id}`;
+                                 const pinned = !dayLocked && isAssignmentLocked(version.locks, slot, id);
+                                 const movable = editable && !pinned;
+                                 return (
+                                   <div
+                                     key={`${id}-${i}`}
+                                     draggable={movable}
+                                     onDragStart={e => startDrag(e, slot, id)}
+                                     onDragEnd={endDrag}
+                                     onDragOver={droppable && !pinned ? e => allowDrop(e, workerKey) : undefined}
+                                     onDrop={droppable && !pinned ? e => dropOnWorker(e, slot, id) : undefined}
+                                     title={[...broken.map(v => v.message), ...(explanation ? [explainAssignment(explanation, id)] : [])].join('\n') || undefined}
+                                     className={`group flex items-center gap-1 text-xs px-1.5 py-0.5 rounded shadow-sm text-gray-700 ${daySch.isPadding ? 'bg-gray-200 opacity-60' : movable ? 'bg-white cursor-grab' : 'bg-white'} ${broken.length > 0 ? 'ring-1 ring-red-500 text-red-700' : ''} ${dropKey === workerKey ? 'ring-2 ring-blue-400' : ''}`}
+                                     style={{ borderLeft: `3px solid ${def.color}` }}
+                                   >
+                                     <span className="truncate flex-1">{getEmp(id)?.name}</span>
+                                     {editable && <button onClick={() => onUpdateLocks(toggleAssignmentLock(version, slot, id))} title={pinned ? 'Unpin' : 'Pin for regeneration'} className={pinned ? 'text-blue-600' : 'opacity-0 group-hover:opacity-100 text-gray-400 hover:text-blue-600'}><Pin className="w-3 h-3" /></button>}
+                                     {movable && <button onClick={() => onEdit({ type: 'remove', slot, employeeId: id })} title="Remove" className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"><X className="w-3 h-3" /></button>}
+                                   </div>
+                                 );
+                               })}
+                               {editable && missing > 0 && Array.from({length: missing}).map((_, i) => (
+                                   <button key={i} onClick={() => openManualAssign(daySch.date, def.id)} title={explanation ? explainEmpty(explanation) : undefined} className="w-full text-left text-xs px-1.5 py-1 bg-red-100 text-red-700 rounded flex items-center gap-1 hover:bg-red-200"><AlertCircle className="w-3 h-3" /> Empty</button>
+                               ))}
+                               {unmet.map(u => (
+                                   <button key={u.skillId} disabled={!editable} onClick={() => openManualAssign(daySch.date, def.id)} className="w-full text-left text-xs px-1.5 py-1 bg-red-100 text-red-700 rounded flex items-center gap-1 hover:bg-red-200"><AlertCircle className="w-3 h-3 shrink-0" /> <span className="truncate">Needs {skillName(u.skillId)}{u.missing > 1 ? ` x${u.missing}` : ''}</span></button>
+                               ))}
+                             </div>
+                          </div>
+                        );
+                      })}
                    </div>
                  );
                })}
             </div>
          </div>
+         <AuditLogPanel entries={version.auditLog} shifts={shifts} />
+        </div>
        ) : (
          <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden p-6">
             <h3 className="font-bold text-gray-800 mb-4">Analysis (Target Month Only)</h3>
+            {distributions.length > 0 && (
+              <div className="flex flex-wrap gap-3 mb-4">
+                {distributions.map(d => (
+                  <div key={d.category} title={`Among the ${Object.keys(d.counts).length} employees who can work them; average ${d.mean.toFixed(1)}`} className="flex items-center gap-2 px-3 py-2 rounded-lg border text-sm">
+                    <span className="font-medium text-gray-700">{d.category} shifts</span>
+                    <span className="text-gray-500">{d.min === d.max ? `${d.max} each` : `${d.min}–${d.max} per person`}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${FAIRNESS_BADGE[d.level]}`}>{d.level}</span>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="overflow-x-auto">
               <table className="w-full text-sm text-left">
                  <thead className="bg-gray-50 text-gray-500 font-medium">
                     <tr>
                       <th className="px-4 py-3">Employee</th>
-                      <th className="px-4 py-3 text-center">Day</th>
-                      <th className="px-4 py-3 text-center">Night</th>
+                      {shifts.map(def => <th key={def.id} className="px-4 py-3 text-center">{def.name}</th>)}
                       <th className="px-4 py-3 text-center">Total</th>
+                      {distributions.map(d => <th key={d.category} className="px-4 py-3 text-center">{d.category}</th>)}
                       <th className="px-4 py-3 text-center">Target</th>
+                      <th className="px-4 py-3 text-center">Requests</th>
                     </tr>
                  </thead>
                  <tbody className="divide-y divide-gray-100">
                     {employees.map(emp => {
-                       const stats = version.stats[emp.id] || { dayShifts: 0, nightShifts: 0, totalShifts: 0, longestStreak: 0 };
+                       const stats = version.stats[emp.id] || { dayShifts: 0, nightShifts: 0, weekendShifts: 0, holidayShifts: 0, shiftCounts: {}, totalShifts: 0, longestStreak: 0, requestsGranted: 0, requestsDenied: 0 };
+                       const requestCount = stats.requestsGranted + stats.requestsDenied;
+                       const target = getMonthTarget(emp, version.continuity?.quotaCarry);
                        return (
                          <tr key={emp.id} className="hover:bg-gray-50">
                            <td className="px-4 py-3 font-medium text-gray-900">{emp.name}</td>
-                           <td className="px-4 py-3 text-center font-medium text-gray-900">{stats.dayShifts}</td>
-                           <td className="px-4 py-3 text-center font-medium text-gray-900">{stats.nightShifts}</td>
+                           {shifts.map(def => <td key={def.id} className="px-4 py-3 text-center font-medium text-gray-900">{stats.shiftCounts[def.id] || 0}</td>)}
                            <td className="px-4 py-3 text-center font-bold bg-gray-50 text-gray-900">{stats.totalShifts}</td>
+                           {distributions.map(d => {
+                             const count = stats[UNDESIRABLE_STATS[d.category]];
+                             // Highlight whoever carries the most when the spread is not balanced
+                             const heaviest = d.level !== FairnessLevel.BALANCED && emp.id in d.counts && count === d.max;
+                             return <td key={d.category} className={`px-4 py-3 text-center ${emp.id in d.counts ? heaviest ? 'font-bold text-red-600' : 'text-gray-900' : 'text-gray-300'}`}>{count}</td>;
+                           })}
+                           <td className="px-4 py-3 text-center">
+                              {target !== undefined ? (
+                                <span title={target !== emp.targetShifts ? `Quota ${emp.targetShifts}, adjusted for earlier months this quarter` : undefined} className={`px-2 py-1 rounded-full text-xs font-bold ${stats.totalShifts >= target ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>{stats.totalShifts}/{target}</span>
+                              ) : '-'}
+                           </td>
                            <td className="px-4 py-3 text-center">
-                              {emp.targetShifts ? (
-                                <span className={`px-2 py-1 rounded-full text-xs font-bold ${stats.totalShifts >= emp.targetShifts ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>{stats.totalShifts}/{emp.targetShifts}</span>
+                              {requestCount > 0 ? (
+                                <div className="flex flex-col items-center gap-1">
+                                  <span className="text-xs font-medium text-gray-700"><span className="text-green-600">{stats.requestsGranted} granted</span> / <span className="text-red-600">{stats.requestsDenied} denied</span></span>
+                                  <div className="w-24 h-1.5 bg-red-200 rounded-full overflow-hidden"><div className="h-full bg-green-500" style={{ width: `${Math.round(stats.requestsGranted / requestCount * 100)}%` }} /></div>
+                                </div>
                               ) : '-'}
                            </td>
                          </tr>
@@ -393,10 +1615,15 @@ const ScheduleViewer: React.FC<{
          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
             <div className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-md">
                <div className="flex justify-between items-center mb-4"><h3 className="text-lg font-bold text-gray-900">Manual Assignment</h3><button onClick={() => setModalOpen(false)}><X className="w-5 h-5" /></button></div>
+               <p className="text-xs text-gray-500 mb-3">Workers marked in red would break a hard rule; they can still be assigned.</p>
                <div className="space-y-2 max-h-[300px] overflow-y-auto">
-                 {employees.map(e => (
-                   <button key={e.id} onClick={() => { onManualUpdate(manualSlot.date, manualSlot.shift, e.id); setModalOpen(false); }} className="w-full flex items-center justify-between p-3 rounded-lg border hover:bg-blue-50 text-left">
-                     <div><div className="font-medium text-gray-900">{e.name}</div><div className="text-xs text-gray-500">{e.preference}</div></div>
+                 {candidates.map(({ emp: e, rules }) => (
+                   <button key={e.id} onClick={() => { onEdit({ type: 'assign', slot: manualSlot, employeeId: e.id }); setModalOpen(false); }} className={`w-full flex items-center justify-between p-3 rounded-lg border text-left ${rules.length > 0 ? 'border-red-200 bg-red-50/50 hover:bg-red-50' : 'hover:bg-blue-50'}`}>
+                     <div>
+                       <div className={`font-medium ${rules.length > 0 ? 'text-gray-500' : 'text-gray-900'}`}>{e.name}</div>
+                       <div className="text-xs text-gray-500">{[e.preference, ...e.skills.filter(id => config.skills.some(sk => sk.id === id)).map(skillName)].join(' · ')}</div>
+                       {rules.length > 0 && <div className="text-xs text-red-600 flex items-center gap-1 mt-0.5"><AlertTriangle className="w-3 h-3" /> {rules.map(r => CONSTRAINT_LABELS[r]).join(', ')}</div>}
+                     </div>
                      {e.targetShifts && <div className="text-xs bg-gray-100 px-2 py-1 rounded">Target: {e.targetShifts}</div>}
                    </button>
                  ))}
@@ -405,92 +1632,735 @@ const ScheduleViewer: React.FC<{
          </div>
        )}
     </div>
+    {explainSlot && <SlotExplanationModal version={version} slot={explainSlot} employees={employees} config={config} onClose={() => setExplainSlot(null)} />}
+    <PrintRoster version={version} employees={employees} config={config} layout={printLayout} />
+    </>
+  );
+};
+
+// --- Slot Explanation ---
+const SlotExplanationModal: React.FC<{ version: ScheduleVersion; slot: SlotRef; employees: Employee[]; config: ShiftConfig; onClose: () => void }> = ({ version, slot, employees, config, onClose }) => {
+  const explanation = findExplanation(version, slot);
+  const shifts = getVersionShifts(version.schedule, config);
+  const getName = (id: string) => employees.find(e => e.id === id)?.name ?? 'Unknown';
+  const skillName = (id: string) => config.skills.find(s => s.id === id)?.name ?? 'Removed skill';
+  if (!explanation) return null;
+  const eligible = explanation.candidates.filter(c => !c.excludedBy);
+  const excluded = explanation.candidates.filter(c => c.excludedBy);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm print:hidden">
+       <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+          <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+             <h3 className="text-lg font-bold text-gray-800">{shifts.find(s => s.id === slot.shiftId)?.name ?? slot.shiftId} · {parseDateKey(slot.date).toLocaleDateString('default', { weekday: 'long', month: 'long', day: 'numeric' })}</h3>
+             <button onClick={onClose}><X className="w-5 h-5 text-gray-500" /></button>
+          </div>
+          <div className="p-4 overflow-y-auto flex-1 space-y-4 text-sm">
+             <p className="text-gray-600">
+               Needed {explanation.required}{explanation.locked.length > 0 ? `, ${explanation.locked.length} pinned (${explanation.locked.map(getName).join(', ')})` : ''}. {eligible.length} eligible, {excluded.length} excluded.
+               {' '}Eligible workers are ranked by: quota not yet met, pacing (behind quota first), soft requests, fewest undesirable shifts so far (weekend, holiday or night slots, as marked in the rules), fairness (fewest shifts so far), then shift-type balance for "Either" workers.
+             </p>
+             {slotChangedSince(version, explanation) && (
+               <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2 flex items-center gap-2"><AlertTriangle className="w-4 h-4 shrink-0" /> This slot has changed since the generator filled it, by the optimizer or a manual edit.</p>
+             )}
+             {eligible.length > 0 && (
+               <table className="w-full">
+                 <thead className="text-gray-500 text-xs">
+                   <tr><th className="text-left py-1">#</th><th className="text-left py-1">Employee</th><th className="text-left py-1">Outcome</th><th className="text-center py-1">Quota met</th><th className="text-left py-1">Pacing</th><th className="text-left py-1">Requests</th><th className="text-center py-1">Undesirable</th><th className="text-center py-1">Fairness</th><th className="text-center py-1">Balance</th></tr>
+                 </thead>
+                 <tbody className="divide-y divide-gray-100">
+                   {eligible.map((c, i) => (
+                     <tr key={c.employeeId} className={c.picked ? 'bg-green-50' : ''}>
+                       <td className="py-1 text-gray-500">{i + 1}</td>
+                       <td className="py-1 font-medium text-gray-900">{getName(c.employeeId)}</td>
+                       <td className={`py-1 text-xs ${c.picked ? 'text-green-700 font-bold' : 'text-gray-500'}`}>{c.picked ? (c.pickedForSkill ? `Picked for ${skillName(c.pickedForSkill)}` : 'Picked') : 'Not needed'}</td>
+                       <td className="py-1 text-center">{c.factors!.metTarget ? 'Yes' : '-'}</td>
+                       <td className="py-1 text-xs">{c.factors!.pacing}</td>
+                       <td className="py-1 text-xs">{describeWish(c.factors!.wish)}</td>
+                       <td className="py-1 text-center">{c.factors!.undesirable ?? '-'}</td>
+                       <td className="py-1 text-center">{c.factors!.fairness}</td>
+                       <td className="py-1 text-center">{c.factors!.balance ?? '-'}</td>
+                     </tr>
+                   ))}
+                 </tbody>
+               </table>
+             )}
+             {excluded.length > 0 && (
+               <div>
+                 <h4 className="text-xs font-bold text-gray-500 uppercase mb-1">Excluded</h4>
+                 <div className="divide-y divide-gray-100">
+                   {excluded.map(c => (
+                     <div key={c.employeeId} className="py-1 flex justify-between gap-4">
+                       <span className="text-gray-700">{getName(c.employeeId)}</span>
+                       <span className="text-xs text-red-600 text-right">{c.excludedBy!.map(r => CONSTRAINT_LABELS[r]).join(', ')}</span>
+                     </div>
+                   ))}
+                 </div>
+               </div>
+             )}
+          </div>
+       </div>
+    </div>
+  );
+};
+
+// --- Version Compare ---
+const VersionCompare: React.FC<{
+  versions: ScheduleVersion[];
+  aId: string;
+  bId: string;
+  employees: Employee[];
+  config: ShiftConfig;
+  onChange: (aId: string, bId: string) => void;
+  onClose: () => void;
+}> = ({ versions, aId, bId, employees, config, onChange, onClose }) => {
+  const a = versions.find(v => v.id === aId);
+  const b = versions.find(v => v.id === bId);
+  const comparison = useMemo(() => a && b ? compareVersions(a, b, employees, config) : null, [a, b, employees, config]);
+  if (!a || !b || !comparison) return null;
+
+  const shifts = getVersionShifts([...a.schedule, ...b.schedule], config);
+  const sameMonth = versions.filter(v => v.month === a.month && v.year === a.year);
+  const getName = (id: string) => employees.find(e => e.id === id)?.name ?? 'Unknown';
+  const shiftName = (id: string) => shifts.find(s => s.id === id)?.name ?? id;
+  const fmt = (key: string) => parseDateKey(key).toLocaleDateString('default', { month: 'short', day: 'numeric' });
+  const emptyStats: EmployeeStats = { totalShifts: 0, dayShifts: 0, nightShifts: 0, weekendShifts: 0, holidayShifts: 0, shiftCounts: {}, longestStreak: 0, requestsGranted: 0, requestsDenied: 0 };
+  const delta = (before: number, after: number, lowerIsBetter = false) => {
+    const d = after - before;
+    if (d === 0) return <span className="text-gray-900">{after}</span>;
+    const good = lowerIsBetter ? d < 0 : d > 0;
+    return <span className="text-gray-900">{before} → {after} <span className={`text-xs ${good ? 'text-green-600' : 'text-red-600'}`}>({d > 0 ? '+' : ''}{d})</span></span>;
+  };
+
+  return (
+    <div className="space-y-6">
+       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+          <div className="flex items-center gap-2 text-sm flex-wrap">
+            <GitCompare className="w-5 h-5 text-blue-600" />
+            <select value={aId} onChange={e => onChange(e.target.value, bId)} className="p-2 border rounded bg-white text-black">
+              {sameMonth.filter(v => v.id !== bId).map(v => <option key={v.id} value={v.id}>{v.name} ({new Date(v.timestamp).toLocaleString()})</option>)}
+            </select>
+            <span className="text-gray-400">vs</span>
+            <select value={bId} onChange={e => onChange(aId, e.target.value)} className="p-2 border rounded bg-white text-black">
+              {sameMonth.filter(v => v.id !== aId).map(v => <option key={v.id} value={v.id}>{v.name} ({new Date(v.timestamp).toLocaleString()})</option>)}
+            </select>
+          </div>
+          <button onClick={onClose} className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-800"><X className="w-4 h-4" /> Close</button>
+       </div>
+
+       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[a, b].map((v, i) => {
+            const cov = comparison.coverage[i];
+            return (
+              <div key={v.id} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+                <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">{i === 0 ? 'A' : 'B'}: Coverage</h3>
+                <div className="flex gap-4 text-sm mb-2">
+                  <span className={cov.uncoveredSlots > 0 ? 'text-red-600 font-bold' : 'text-green-600'}>{cov.uncoveredSlots} empty {cov.uncoveredSlots === 1 ? 'slot' : 'slots'}</span>
+                  <span className={cov.unmetSkills > 0 ? 'text-red-600 font-bold' : 'text-green-600'}>{cov.unmetSkills} missing {cov.unmetSkills === 1 ? 'skill' : 'skills'}</span>
+                </div>
+                <ul className="text-xs text-gray-600 space-y-0.5 max-h-32 overflow-y-auto">
+                  {cov.gaps.map(g => (
+                    <li key={`${g.date}:${g.shiftId}`}>{fmt(g.date)}, {shiftName(g.shiftId)}: {[g.missing > 0 ? `${g.missing} empty` : '', ...g.missingSkills.map(sk => `no ${sk}`)].filter(Boolean).join(', ')}</li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+       </div>
+
+       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="p-3 border-b text-sm text-gray-600">{comparison.slotDiffs.length} changed {comparison.slotDiffs.length === 1 ? 'slot' : 'slots'} on {comparison.changedDates.length} {comparison.changedDates.length === 1 ? 'day' : 'days'} <span className="text-red-600 line-through ml-2">only in A</span> <span className="text-green-700 ml-2">only in B</span></div>
+          <div className="grid grid-cols-7 bg-gray-50 border-b text-center py-2 text-xs font-bold text-gray-500 uppercase">
+             {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(d => <div key={d}>{d}</div>)}
+          </div>
+          <div className="grid grid-cols-7 auto-rows-fr bg-gray-200 gap-px">
+             {b.schedule.map(dayB => {
+               const diffs = comparison.slotDiffs.filter(d => d.date === dayB.date);
+               return (
+                 <div key={dayB.date} className={`min-h-[100px] p-2 flex flex-col gap-1 ${diffs.length > 0 ? 'bg-amber-50' : dayB.isPadding ? 'bg-gray-100' : 'bg-white'}`}>
+                    <div className={`text-right text-sm font-bold ${dayB.isPadding ? 'text-gray-300' : 'text-gray-500'}`}>{parseDateKey(dayB.date).getDate()}</div>
+                    {shifts.map(def => {
+                      const diff = diffs.find(d => d.shiftId === def.id);
+                      const kept = [...getAssigned(dayB, def.id)];
+                      diff?.added.forEach(id => kept.splice(kept.indexOf(id), 1));
+                      if (kept.length === 0 && !diff) return null;
+                      return (
+                        <div key={def.id} className={`rounded p-1 text-xs ${diff ? 'ring-1 ring-amber-400' : ''}`} style={{ backgroundColor: shiftTint(def) }}>
+                          <div className="text-[10px] font-bold uppercase" style={{ color: def.color }}>{def.name}</div>
+                          {kept.map((id, i) => <div key={`k${i}`} className="truncate text-gray-700">{getName(id)}</div>)}
+                          {diff?.removed.map((id, i) => <div key={`r${i}`} className="truncate text-red-600 line-through">{getName(id)}</div>)}
+                          {diff?.added.map((id, i) => <div key={`a${i}`} className="truncate text-green-700 font-medium">{getName(id)}</div>)}
+                        </div>
+                      );
+                    })}
+                 </div>
+               );
+             })}
+          </div>
+       </div>
+
+       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden p-6">
+          <h3 className="font-bold text-gray-800 mb-4">Stats Changes (A → B)</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+               <thead className="bg-gray-50 text-gray-500 font-medium">
+                  <tr>
+                    <th className="px-4 py-3">Employee</th>
+                    {shifts.map(def => <th key={def.id} className="px-4 py-3 text-center">{def.name}</th>)}
+                    <th className="px-4 py-3 text-center">Total</th>
+                    <th className="px-4 py-3 text-center">Longest Streak</th>
+                    <th className="px-4 py-3 text-center">Requests Granted</th>
+                  </tr>
+               </thead>
+               <tbody className="divide-y divide-gray-100">
+                  {employees.map(emp => {
+                    const sa = a.stats[emp.id] || emptyStats;
+                    const sb = b.stats[emp.id] || emptyStats;
+                    const changed = JSON.stringify(sa) !== JSON.stringify(sb);
+                    return (
+                      <tr key={emp.id} className={changed ? 'bg-amber-50/50' : ''}>
+                        <td className="px-4 py-3 font-medium text-gray-900">{emp.name}</td>
+                        {shifts.map(def => <td key={def.id} className="px-4 py-3 text-center">{delta(sa.shiftCounts[def.id] || 0, sb.shiftCounts[def.id] || 0)}</td>)}
+                        <td className="px-4 py-3 text-center font-bold">{delta(sa.totalShifts, sb.totalShifts)}</td>
+                        <td className="px-4 py-3 text-center">{delta(sa.longestStreak, sb.longestStreak, true)}</td>
+                        <td className="px-4 py-3 text-center">{delta(sa.requestsGranted, sb.requestsGranted)}</td>
+                      </tr>
+                    );
+                  })}
+               </tbody>
+            </table>
+          </div>
+       </div>
+    </div>
+  );
+};
+
+// --- Feasibility ---
+const FeasibilityPanel: React.FC<{ report: FeasibilityReport; shifts: ShiftDefinition[] }> = ({ report, shifts }) => {
+  const [expanded, setExpanded] = useState(false);
+  const errors = report.issues.filter(i => i.severity === ViolationSeverity.ERROR);
+  const warnings = report.issues.filter(i => i.severity === ViolationSeverity.WARNING);
+  const shown = expanded ? [...errors, ...warnings] : [...errors, ...warnings].slice(0, 3);
+  const load = report.capacity > 0 ? Math.round(report.demand / report.capacity * 100) : 100;
+
+  return (
+    <div className="mt-3 text-xs space-y-2">
+      <div className={`flex items-center gap-2 ${errors.length > 0 ? 'text-red-700' : warnings.length > 0 ? 'text-amber-700' : 'text-green-700'}`}>
+        {errors.length > 0 ? <AlertCircle className="w-3 h-3 shrink-0" /> : warnings.length > 0 ? <AlertTriangle className="w-3 h-3 shrink-0" /> : <CheckCircle className="w-3 h-3 shrink-0" />}
+        <span>{errors.length > 0 ? `Can't be fully covered (${errors.length} shortfall${errors.length === 1 ? '' : 's'})` : warnings.length > 0 ? `${warnings.length} warning${warnings.length === 1 ? '' : 's'}` : 'Coverage looks feasible'}</span>
+        <span className="ml-auto text-gray-500" title="Shifts to fill / most shifts the workforce can work">{report.demand}/{report.capacity} ({load}%)</span>
+      </div>
+      {shown.map((issue, i) => (
+        <div key={i} className={`p-2 rounded border ${issue.severity === ViolationSeverity.ERROR ? 'bg-red-50 border-red-100 text-red-800' : 'bg-amber-50 border-amber-100 text-amber-800'}`}>{issue.message}</div>
+      ))}
+      {expanded && (
+        <table className="w-full text-center" title="Eligible workers / required per weekday">
+          <thead className="text-gray-500"><tr><th></th>{shifts.map(def => <th key={def.id} className="font-medium truncate" style={{ color: def.color }}>{def.name}</th>)}</tr></thead>
+          <tbody>
+            {WEEKDAY_NAMES.map((name, weekday) => (
+              <tr key={weekday}>
+                <td className="text-left text-gray-500">{name.slice(0, 3)}</td>
+                {shifts.map(def => {
+                  const s = report.supply.find(x => x.weekday === weekday && x.shiftId === def.id);
+                  return <td key={def.id} className={s && s.eligible < s.required ? 'text-red-600 font-bold' : 'text-gray-700'}>{s ? `${s.eligible}/${s.required}` : '-'}</td>;
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <button onClick={() => setExpanded(x => !x)} className="text-blue-600 hover:underline">{expanded ? 'Show less' : report.issues.length > 3 ? `Show all ${report.issues.length} and supply` : 'Show supply per weekday'}</button>
+    </div>
+  );
+};
+
+// --- Candidate Picker ---
+const CANDIDATES_SHOWN = 5;
+
+const CandidatePickerModal: React.FC<{ candidates: ScheduleCandidate[]; tried: number; onClose: () => void; onPick: (v: ScheduleVersion) => void }> = ({ candidates, tried, onClose, onPick }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+     <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+           <h3 className="text-lg font-bold text-gray-800">Best of {tried} Seeds</h3>
+           <button onClick={onClose}><X className="w-5 h-5 text-gray-500" /></button>
+        </div>
+        <div className="p-4 overflow-y-auto flex-1 space-y-3">
+           <p className="text-xs text-gray-500">Ranked by uncovered slots, then target deviation, then streak load (each run of consecutive days counts (length - 1)²), then the solver score. Lower is better.</p>
+           <table className="w-full text-sm">
+              <thead className="text-gray-500 text-xs">
+                 <tr><th className="text-left py-1">#</th><th className="text-left py-1">Seed</th><th className="text-center py-1">Uncovered</th><th className="text-center py-1">Target dev.</th><th className="text-center py-1">Streak load</th><th className="text-center py-1">Score</th><th></th></tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                 {candidates.map((c, i) => (
+                   <tr key={c.version.id}>
+                      <td className="py-2 text-gray-500">{i + 1}</td>
+                      <td className="py-2 font-mono text-xs text-gray-700">{c.version.seed}</td>
+                      <td className="py-2 text-center">{c.score.uncoveredSlots}</td>
+                      <td className="py-2 text-center">{c.score.targetDeviation}</td>
+                      <td className="py-2 text-center">{c.score.streakLoad}</td>
+                      <td className="py-2 text-center">{c.score.score}</td>
+                      <td className="py-2 text-right"><button onClick={() => onPick(c.version)} className="px-3 py-1 rounded-lg bg-blue-600 text-white text-xs hover:bg-blue-700">Use</button></td>
+                   </tr>
+                 ))}
+              </tbody>
+           </table>
+        </div>
+     </div>
+  </div>
+);
+
+// --- Backup Restore ---
+const RestoreBackupModal: React.FC<{
+  fileName: string;
+  backup: ProjectBackup;
+  summary: BackupSummary;
+  employees: Employee[];
+  versions: ScheduleVersion[];
+  config: ShiftConfig;
+  onClose: () => void;
+  onReplace: () => void;
+  onMerge: (result: BackupMergeResult) => void;
+}> = ({ fileName, backup, summary, employees, versions, config, onClose, onReplace, onMerge }) => {
+  const merged = useMemo(() => mergeBackup(employees, versions, config, backup), [employees, versions, config, backup]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+       <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl max-h-[90vh] flex flex-col">
+          <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-xl">
+             <h3 className="text-lg font-bold text-gray-800">Restore Backup: {fileName}</h3>
+             <button onClick={onClose}><X className="w-5 h-5 text-gray-500" /></button>
+          </div>
+          <div className="p-4 overflow-y-auto flex-1 space-y-4 text-sm">
+             <p className="text-gray-600">Made {new Date(summary.createdAt).toLocaleString()} with {summary.employees} employees and {summary.versions} versions{backup.importedHistory || backup.manualHistory ? ', including history context' : ''}.</p>
+             <div className="border rounded-lg p-3 space-y-2">
+               <div className="font-bold text-gray-800">Replace everything</div>
+               <p className="text-xs text-gray-500">Employees, rules, versions and history context all come from the backup. Current data is discarded.</p>
+               <button onClick={() => { onReplace(); onClose(); }} className="px-3 py-1.5 rounded-lg bg-red-600 text-white hover:bg-red-700">Replace</button>
+             </div>
+             <div className="border rounded-lg p-3 space-y-2">
+               <div className="font-bold text-gray-800">Merge versions</div>
+               <p className="text-xs text-gray-500">Adds the backup's versions and keeps your employees, rules and history. Employees are matched by ID or name; {merged.matchedEmployees} match, {merged.addedEmployees} would be added.</p>
+               <p className="text-xs text-gray-500">{merged.importedVersions} versions to import{merged.skippedVersions > 0 ? `, ${merged.skippedVersions} already present` : ''}.</p>
+               {merged.droppedReferences > 0 && <p className="text-xs text-amber-700">{merged.droppedReferences} skills, time off or requests of added employees refer to skills or shifts this project does not have and will be dropped.</p>}
+               <button onClick={() => { onMerge(merged); onClose(); }} disabled={merged.importedVersions === 0 && merged.addedEmployees === 0} className="px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">Merge</button>
+             </div>
+          </div>
+          <div className="p-4 border-t bg-gray-50 rounded-b-xl flex justify-end">
+             <button onClick={onClose} className="px-4 py-2 text-gray-600">Cancel</button>
+          </div>
+       </div>
+    </div>
   );
 };
 
 // --- App ---
 const App: React.FC = () => {
   const [tab, setTab] = useState<'workers' | 'rules' | 'schedule'>('workers');
-  const [employees, setEmployees] = useState<Employee[]>([
-    { id: '1', name: 'גולן חדד', preference: WorkerPreference.DAY_ONLY, availability: { daysOff: [] }, color: '#fff' },
-    { id: '2', name: 'ניצן כפיר', preference: WorkerPreference.EITHER, availability: { daysOff: [] }, color: '#fff' },
-    { id: '3', name: 'דן אהרוני', preference: WorkerPreference.EITHER, availability: { daysOff: [] }, color: '#fff' },
-    { id: '4', name: 'ענבר כפיר', preference: WorkerPreference.EITHER, availability: { daysOff: [] }, color: '#fff' },
-    { id: '5', name: 'רועי נוף', preference: WorkerPreference.EITHER, availability: { daysOff: [] }, color: '#fff' },
-    { id: '6', name: 'עומרי חכים', preference: WorkerPreference.EITHER, availability: { daysOff: [] }, color: '#fff' },
-  ]);
-  const [config, setConfig] = useState<ShiftConfig>({
-    dayStartTime: '06:00', dayEndTime: '15:00', nightStartTime: '14:00', nightEndTime: '00:00', distributeDayShiftsToEither: false,
-    requirements: { 0: { day: 1, night: 1 }, 1: { day: 2, night: 1 }, 2: { day: 2, night: 1 }, 3: { day: 2, night: 1 }, 4: { day: 2, night: 2 }, 5: { day: 2, night: 2 }, 6: { day: 1, night: 1 } }
-  });
-  const [versions, setVersions] = useState<ScheduleVersion[]>([]);
-  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [initialLoad] = useState(() => loadAppState());
+  const [employees, setEmployees] = useState<Employee[]>(initialLoad.state?.employees || DEFAULT_EMPLOYEES);
+  const [config, setConfig] = useState<ShiftConfig>(initialLoad.state?.config || DEFAULT_CONFIG);
+  const [versions, setVersions] = useState<ScheduleVersion[]>(initialLoad.state?.versions || []);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(initialLoad.state?.currentVersionId || null);
   const [genMonth, setGenMonth] = useState(new Date().getMonth());
   const [genYear, setGenYear] = useState(new Date().getFullYear());
+  const [genEngine, setGenEngine] = useState<SolverEngine>(SolverEngine.GREEDY);
+  const [genPreviousId, setGenPreviousId] = useState<string | null>(null);
+  const [genRollover, setGenRollover] = useState<StatsRollover>(StatsRollover.MONTHLY);
+  const [genSeed, setGenSeed] = useState('');
+  const [genCandidates, setGenCandidates] = useState(1);
+  const [candidates, setCandidates] = useState<CandidateSearch | null>(null);
+  const [searchProgress, setSearchProgress] = useState<{ done: number; total: number } | null>(null);
+  const searchCancelledRef = useRef(false);
   const [manualHistory, setManualHistory] = useState<ManualHistoryInput | null>(null);
   const [historyModalOpen, setHistoryModalOpen] = useState(false);
   const [importedHistory, setImportedHistory] = useState<HistoricalContext | null>(null);
+  const [pendingHistoryCSV, setPendingHistoryCSV] = useState<CsvTable | null>(null);
+  const historyFileRef = useRef<HTMLInputElement>(null);
+  const [pendingVersionCSV, setPendingVersionCSV] = useState<CsvTable | null>(null);
+  const [pendingWorkforce, setPendingWorkforce] = useState<{ file: WorkforceFile; name: string } | null>(null);
+  const versionFileRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<{ backup: ProjectBackup; summary: BackupSummary; name: string } | null>(null);
+  const backupFileRef = useRef<HTMLInputElement>(null);
+  const [compareIds, setCompareIds] = useState<{ a: string; b: string } | null>(null);
+
+  // --- Persistence ---
+  // Saving pauses while there is an unresolved issue so we never clobber another tab's (or a newer app's) data.
+  const [storageIssue, setStorageIssue] = useState<StorageIssue | null>(initialLoad.error ? { kind: 'unreadable', message: initialLoad.error } : null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const revisionRef = useRef(initialLoad.revision);
+  const lastSavedRef = useRef(initialLoad.state ? JSON.stringify(initialLoad.state) : '');
+
+  const persistedState: AppState = useMemo(
+    () => ({ employees, config, versions, currentVersionId: selectedVersionId }),
+    [employees, config, versions, selectedVersionId]
+  );
+
+  useEffect(() => subscribeToExternalChanges(change => {
+    if (change.revision > revisionRef.current) setStorageIssue({ kind: 'conflict', savedAt: change.savedAt });
+  }), []);
+
+  useEffect(() => {
+    if (storageIssue) return;
+    const serialized = JSON.stringify(persistedState);
+    if (serialized === lastSavedRef.current) return;
+    const result = saveAppState(persistedState, revisionRef.current);
+    if (result.status === 'saved') {
+      revisionRef.current = result.revision;
+      lastSavedRef.current = serialized;
+      setSaveError(null);
+    } else if (result.status === 'conflict') {
+      setStorageIssue({ kind: 'conflict', savedAt: result.savedAt });
+    } else {
+      setSaveError(result.error);
+    }
+  }, [persistedState, storageIssue]);
+
+  const handleLoadStoredState = () => {
+    const loaded = loadAppState();
+    if (!loaded.state) { setStorageIssue({ kind: 'unreadable', message: loaded.error || 'No saved data found' }); return; }
+    revisionRef.current = loaded.revision;
+    lastSavedRef.current = JSON.stringify(loaded.state);
+    setEmployees(loaded.state.employees);
+    setConfig(loaded.state.config);
+    setVersions(loaded.state.versions);
+    setSelectedVersionId(loaded.state.currentVersionId);
+    setStorageIssue(null);
+  };
+
+  const handleKeepLocalState = () => {
+    const result = saveAppState(persistedState, revisionRef.current, true);
+    if (result.status === 'saved') {
+      revisionRef.current = result.revision;
+      lastSavedRef.current = JSON.stringify(persistedState);
+      setStorageIssue(null);
+    } else if (result.status === 'error') {
+      setSaveError(result.error);
+    }
+  };
 
   const currentVersion = useMemo(() => versions.find(v => v.id === selectedVersionId) || versions[0] || null, [versions, selectedVersionId]);
   
-  const handleGenerate = () => {
+  const feasibility = useMemo(() => analyzeFeasibility(employees, config, genYear, genMonth), [employees, config, genYear, genMonth]);
+
+  // --- Multi-month Continuity ---
+  const previousCandidates = useMemo(() => versions.filter(v => isPreviousMonth(v, genYear, genMonth)), [versions, genYear, genMonth]);
+  const continueFrom = previousCandidates.find(v => v.id === genPreviousId) || null;
+
+  // Generates year/month from the chained previous version, or from the context set up by hand or CSV
+  const generateFrom = async (year: number, month: number, previous: ScheduleVersion | null, rollover: StatsRollover, options: GenerateOptions): Promise<ScheduleVersion> => {
+    if (!previous) return generateSchedule(employees, year, month, config, importedHistory || undefined, manualHistory || undefined, options);
+    const plan = planContinuation(previous, versions, employees, year, month, rollover);
+    return { ...await generateSchedule(employees, year, month, config, plan.history, plan.manualHistory, options), continuity: plan.continuity };
+  };
+
+  // One generation job at a time runs under the progress bar; a cancelled job resolves to null
+  const runGeneration = async <T,>(total: number, work: (isCancelled: () => boolean) => Promise<T>): Promise<T | null> => {
+    const isCancelled = () => searchCancelledRef.current;
+    searchCancelledRef.current = false;
+    setSearchProgress({ done: 0, total });
+    try {
+      return await work(isCancelled);
+    } catch (e) {
+      if (isCancelled()) return null;
+      throw e;
+    } finally { setSearchProgress(null); }
+  };
+
+  const seedCount = Math.min(genCandidates, maxCandidates(genEngine));
+
+  const handleGenerate = async () => {
     if (employees.length === 0) { alert("No employees"); return; }
+    if (searchProgress) return;
+    const seed = genSeed.trim() === '' ? undefined : Number(genSeed);
+    if (seed !== undefined && !isValidSeed(seed)) { alert(`The seed must be a whole number from 0 to ${MAX_SEED}`); return; }
     try {
-      const v = generateSchedule(employees, genYear, genMonth, config, importedHistory || undefined, manualHistory || undefined);
+      if (seedCount > 1) {
+        const found = await runGeneration(seedCount, isCancelled => searchCandidates(
+          s => generateFrom(genYear, genMonth, continueFrom, genRollover, { engine: genEngine, seed: s, isCancelled }),
+          seedCount, CANDIDATES_SHOWN, seed,
+          (done, total) => setSearchProgress({ done, total }),
+          isCancelled
+        ));
+        if (found && found.candidates.length > 0) setCandidates(found);
+        return;
+      }
+      const v = await runGeneration(1, isCancelled => generateFrom(genYear, genMonth, continueFrom, genRollover, { engine: genEngine, seed, isCancelled }));
+      if (!v) return;
       setVersions(p => [v, ...p]); setSelectedVersionId(v.id); setTab('schedule');
     } catch (e) { alert("Generation failed"); console.error(e); }
   };
 
-  const handleManualAssign = (date: string, shift: ShiftType, empId: string) => {
-    if (!currentVersion) return;
-    const updated = { ...currentVersion, schedule: [...currentVersion.schedule] };
-    const idx = updated.schedule.findIndex(s => s.date === date);
-    if (idx > -1) {
-      const d = { ...updated.schedule[idx] };
-      if (shift === ShiftType.DAY) d.dayShift = [...d.dayShift, empId]; else d.nightShift = [...d.nightShift, empId];
-      updated.schedule[idx] = d;
-      if (!d.isPadding) {
-         const st = { ...updated.stats[empId] }; st.totalShifts++; if(shift===ShiftType.DAY) st.dayShifts++; else st.nightShifts++;
-         updated.stats = { ...updated.stats, [empId]: st };
-      }
-      setVersions(p => p.map(v => v.id === updated.id ? updated : v));
+  const handlePickCandidate = (v: ScheduleVersion) => {
+    setVersions(p => [v, ...p]); setSelectedVersionId(v.id); setTab('schedule');
+    setCandidates(null);
+  };
+
+  const handleHistoryFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingHistoryCSV(await readCsvFile(file));
+    } catch (err) { alert(`Could not read history CSV: ${err instanceof Error ? err.message : err}`); console.error(err); }
+  };
+
+  const handleVersionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingVersionCSV(await readCsvFile(file));
+    } catch (err) { alert(`Could not read version CSV: ${err instanceof Error ? err.message : err}`); console.error(err); }
+  };
+
+  const handleWorkforceFile = async (file: File) => {
+    try {
+      const parsed = parseWorkforceFile(await file.text(), file.name, config.skills);
+      if (parsed.records.length === 0 && parsed.errors.length === 0) { alert(`${file.name} contains no employees`); return; }
+      setPendingWorkforce({ file: parsed, name: file.name });
+    } catch (err) { alert(`Could not read workforce file: ${err instanceof Error ? err.message : err}`); console.error(err); }
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      await exportBackup({ ...persistedState, manualHistory, importedHistory });
+    } catch (err) { alert(`Could not create backup: ${err instanceof Error ? err.message : err}`); console.error(err); }
+  };
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingBackup({ ...await readBackup(await file.text()), name: file.name });
+    } catch (err) { alert(`Could not restore backup: ${err instanceof Error ? err.message : err}`); console.error(err); }
+  };
+
+  const handleReplaceFromBackup = (backup: ProjectBackup) => {
+    setEmployees(backup.employees);
+    setConfig(backup.config);
+    setVersions(backup.versions);
+    setSelectedVersionId(backup.currentVersionId);
+    setManualHistory(backup.manualHistory);
+    setImportedHistory(backup.importedHistory);
+    setEditHistory({});
+    setCompareIds(null);
+  };
+
+  const handleMergeFromBackup = (result: BackupMergeResult) => {
+    setEmployees(result.employees);
+    setVersions(result.versions);
+  };
+
+  // Re-importing a version that still exists either replaces it or comes in as a copy
+  const handleImportVersion = (imported: ScheduleVersion) => {
+    const exists = versions.some(v => v.id === imported.id);
+    if (exists && confirm(`"${imported.name}" already exists. Replace it with the imported file? Cancel imports it as a copy.`)) {
+      setVersions(p => p.map(v => v.id === imported.id ? imported : v));
+      setSelectedVersionId(imported.id);
+      return;
     }
+    const v = exists ? { ...imported, id: crypto.randomUUID(), name: `${imported.name} (imported)` } : imported;
+    setVersions(p => [v, ...p]); setSelectedVersionId(v.id); setTab('schedule');
+  };
+
+  // --- Roster Edits ---
+  // Undo and redo are edits of their own, so the audit log keeps the full story
+  const [editHistory, setEditHistory] = useState<Record<string, { undo: RosterEdit[]; redo: RosterEdit[] }>>({});
+  const currentEdits = (currentVersion && editHistory[currentVersion.id]) || { undo: [], redo: [] };
+
+  const applyToCurrent = (edit: RosterEdit, reason?: string): boolean => {
+    if (!currentVersion) return false;
+    const updated = applyRosterEdit(currentVersion, edit, employees, config, reason);
+    if (updated === currentVersion) return false;
+    setVersions(p => p.map(v => v.id === updated.id ? updated : v));
+    return true;
+  };
+
+  const handleRosterEdit = (edit: RosterEdit, reason?: string) => {
+    if (!currentVersion || !applyToCurrent(edit, reason)) return;
+    setEditHistory(h => ({ ...h, [currentVersion.id]: { undo: [...currentEdits.undo, edit], redo: [] } }));
+  };
+
+  const handleUndo = () => {
+    const edit = currentEdits.undo[currentEdits.undo.length - 1];
+    if (!currentVersion || !edit || !applyToCurrent(invertRosterEdit(edit), 'Undo')) return;
+    setEditHistory(h => ({ ...h, [currentVersion.id]: { undo: currentEdits.undo.slice(0, -1), redo: [...currentEdits.redo, edit] } }));
+  };
+
+  const handleRedo = () => {
+    const edit = currentEdits.redo[currentEdits.redo.length - 1];
+    if (!currentVersion || !edit || !applyToCurrent(edit, 'Redo')) return;
+    setEditHistory(h => ({ ...h, [currentVersion.id]: { undo: [...currentEdits.undo, edit], redo: currentEdits.redo.slice(0, -1) } }));
   };
 
+  const handleUpdateLocks = (updated: ScheduleVersion) => setVersions(p => p.map(v => v.id === updated.id ? updated : v));
+
+  // Re-solves the current version around its locks, from the history and padding it was generated
+  // with rather than this session's; with its own seed and engine this reproduces it exactly.
+  // Versions made before inputs were recorded fall back to the session's context.
+  const regenerateCurrent = async (options: GenerateOptions, suffix: string) => {
+    if (!currentVersion || searchProgress) return;
+    const continuity = currentVersion.continuity;
+    const inputs = currentVersion.inputs;
+    const previous = continuity && !inputs ? versions.find(v => v.id === continuity.previousVersionId) || null : null;
+    if (continuity && !inputs && !previous && !confirm('The version this roster continues from has been deleted. Regenerate without it?')) return;
+    const { year, month, locks, schedule } = currentVersion;
+    try {
+      const v = await runGeneration(1, async isCancelled => {
+        const around: GenerateOptions = { locks, lockedSchedule: schedule, ...options, isCancelled };
+        return inputs
+          ? { ...await generateSchedule(employees, year, month, config, inputs.history, inputs.manualHistory, around), ...(continuity && { continuity }) }
+          : generateFrom(year, month, previous, continuity?.rollover || StatsRollover.MONTHLY, around);
+      });
+      if (!v) return;
+      const regenerated = { ...v, name: `${v.name} (${suffix})` };
+      setVersions(p => [regenerated, ...p]); setSelectedVersionId(regenerated.id);
+    } catch (e) { alert("Regeneration failed"); console.error(e); }
+  };
+
+  const handleRegenerate = () => regenerateCurrent({ engine: genEngine }, 'regenerated');
+
+  const handleReproduce = () => {
+    if (currentVersion?.seed === undefined) return;
+    const inputs = currentVersion.inputs;
+    const mismatch = !inputs
+      ? 'This version was made before its history and padding days were recorded'
+      : inputs.fingerprint !== fingerprintInputs(employees, config) ? 'Employees or rules have changed since this version was generated' : null;
+    if (mismatch && !confirm(`${mismatch}, so the result will not match it exactly. Reproduce anyway?`)) return;
+    regenerateCurrent({ engine: currentVersion.solverReport?.engine || genEngine, seed: currentVersion.seed }, 'reproduced');
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (tab !== 'schedule' || !(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); handleUndo(); }
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) { e.preventDefault(); handleRedo(); }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
   return (
-    <div className="min-h-screen bg-slate-50 font-sans text-slate-900">
-      <header className="bg-slate-900 text-white p-4 sticky top-0 z-20 shadow-md">
+    <div className="min-h-screen bg-slate-50 font-sans text-slate-900 print:min-h-0 print:bg-white">
+      <header className="bg-slate-900 text-white p-4 sticky top-0 z-20 shadow-md print:hidden">
         <div className="max-w-7xl mx-auto flex justify-between items-center">
           <h1 className="text-xl font-bold flex gap-2 items-center"><Calendar className="text-blue-400"/> ShiftMaster</h1>
-          <nav className="flex gap-1 bg-slate-800 p-1 rounded-lg">
-             {['workers','rules','schedule'].map(t => <button key={t} onClick={() => setTab(t as any)} className={`px-4 py-2 rounded-md text-sm capitalize ${tab===t?'bg-blue-600 text-white':'text-slate-400 hover:text-white'}`}>{t}</button>)}
-          </nav>
+          <div className="flex items-center gap-3">
+            <nav className="flex gap-1 bg-slate-800 p-1 rounded-lg">
+               {['workers','rules','schedule'].map(t => <button key={t} onClick={() => setTab(t as any)} className={`px-4 py-2 rounded-md text-sm capitalize ${tab===t?'bg-blue-600 text-white':'text-slate-400 hover:text-white'}`}>{t}</button>)}
+            </nav>
+            <div className="flex gap-1">
+              <button onClick={handleExportBackup} title="Back up the whole project (employees, rules, all versions and history)" className="p-2 rounded-md text-slate-400 hover:text-white hover:bg-slate-800"><Archive className="w-5 h-5" /></button>
+              <button onClick={() => backupFileRef.current?.click()} title="Restore a project backup" className="p-2 rounded-md text-slate-400 hover:text-white hover:bg-slate-800"><ArchiveRestore className="w-5 h-5" /></button>
+              <input ref={backupFileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleBackupFile} />
+            </div>
+          </div>
         </div>
       </header>
-      <main className="max-w-7xl mx-auto p-4 sm:p-6">
-        {tab === 'workers' && <EmployeeManager employees={employees} onAdd={e=>setEmployees([...employees, e])} onRemove={id=>setEmployees(p=>p.filter(e=>e.id!==id))} onUpdate={u=>setEmployees(p=>p.map(e=>e.id===u.id?u:e))} />}
+      {storageIssue && (
+        <div className="bg-amber-50 border-b border-amber-200 text-amber-900 text-sm print:hidden">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              {storageIssue.kind === 'conflict'
+                ? <span>Another tab saved newer changes at {new Date(storageIssue.savedAt).toLocaleTimeString()}. Auto-save is paused until you choose which data to keep.</span>
+                : <span>Saved data could not be loaded ({storageIssue.message}). Auto-save is paused so it is not overwritten.</span>}
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {storageIssue.kind === 'conflict' && <button onClick={handleLoadStoredState} className="px-3 py-1 rounded bg-amber-600 text-white hover:bg-amber-700">Load newer data</button>}
+              <button onClick={handleKeepLocalState} className="px-3 py-1 rounded border border-amber-300 bg-white hover:bg-amber-100">{storageIssue.kind === 'conflict' ? 'Keep this tab' : 'Overwrite saved data'}</button>
+            </div>
+          </div>
+        </div>
+      )}
+      {saveError && !storageIssue && (
+        <div className="bg-red-50 border-b border-red-200 text-red-800 text-sm print:hidden">
+          <div className="max-w-7xl mx-auto px-4 py-2 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> Changes could not be saved: {saveError}</div>
+        </div>
+      )}
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 print:p-0 print:max-w-none">
+        {tab === 'workers' && <EmployeeManager employees={employees} shifts={config.shifts} skills={config.skills} onAdd={e=>setEmployees([...employees, e])} onRemove={id=>setEmployees(p=>p.filter(e=>e.id!==id))} onUpdate={u=>setEmployees(p=>p.map(e=>e.id===u.id?u:e))} onImportFile={handleWorkforceFile} />}
         {tab === 'rules' && <ConfigPanel config={config} onUpdate={setConfig} />}
         {tab === 'schedule' && (
-          <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
-             <div className="lg:col-span-3 space-y-6">
+          <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 print:block">
+             <div className="lg:col-span-3 space-y-6 print:hidden">
                 <div className="bg-white p-4 rounded-xl shadow border border-gray-100">
                    <h3 className="font-bold mb-4 flex gap-2"><CheckCircle className="text-blue-600 w-4 h-4"/> Generate</h3>
                    <div className="space-y-3 mb-4">
                       <div><label className="text-xs font-bold text-gray-500 uppercase">Month</label><select value={genMonth} onChange={e=>setGenMonth(parseInt(e.target.value))} className="w-full p-2 border rounded bg-gray-50 text-black">{Array.from({length:12}).map((_,i)=><option key={i} value={i}>{new Date(2000,i,1).toLocaleString('default',{month:'long'})}</option>)}</select></div>
                       <div><label className="text-xs font-bold text-gray-500 uppercase">Year</label><input type="number" value={genYear} onChange={e=>setGenYear(parseInt(e.target.value))} className="w-full p-2 border rounded bg-gray-50 text-black"/></div>
+                      <div>
+                        <label className="text-xs font-bold text-gray-500 uppercase">Engine</label>
+                        <div className="flex bg-gray-100 rounded-lg p-1 mt-1">
+                          {Object.values(SolverEngine).map(eng => <button key={eng} onClick={() => setGenEngine(eng)} className={`flex-1 px-2 py-1 text-xs font-medium rounded-md transition ${genEngine === eng ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>{eng}</button>)}
+                        </div>
+                      </div>
+                      {previousCandidates.length > 0 && (
+                        <div>
+                          <label className="text-xs font-bold text-gray-500 uppercase">Continue From</label>
+                          <select value={continueFrom?.id || ''} onChange={e=>setGenPreviousId(e.target.value || null)} className="w-full p-2 border rounded bg-gray-50 text-black">
+                            <option value="">Nothing (start fresh)</option>
+                            {previousCandidates.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+                          </select>
+                        </div>
+                      )}
+                      {continueFrom && (
+                        <div>
+                          <label className="text-xs font-bold text-gray-500 uppercase">Balance Fairness &amp; Quotas</label>
+                          <div className="flex bg-gray-100 rounded-lg p-1 mt-1">
+                            {Object.values(StatsRollover).map(r => <button key={r} onClick={() => setGenRollover(r)} className={`flex-1 px-2 py-1 text-xs font-medium rounded-md transition ${genRollover === r ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}>{r}</button>)}
+                          </div>
+                          <p className="text-xs text-gray-500 mt-2">Streaks, last shifts and the days both months share come from {continueFrom.name}.{genRollover === StatsRollover.QUARTERLY ? ' Totals and quota shortfalls carry over until the quarter ends.' : ''}</p>
+                        </div>
+                      )}
+                      <div className="grid grid-cols-2 gap-2">
+                        <div><label className="text-xs font-bold text-gray-500 uppercase">Seed</label><input type="text" inputMode="numeric" value={genSeed} onChange={e=>setGenSeed(e.target.value)} placeholder="Random" title="The same seed and inputs always give the same roster" className="w-full p-2 border rounded bg-gray-50 text-black"/></div>
+                        <div><label className="text-xs font-bold text-gray-500 uppercase">Candidates</label><input type="number" min={1} max={maxCandidates(genEngine)} value={seedCount} onChange={e=>setGenCandidates(Math.max(1, Math.min(maxCandidates(genEngine), parseInt(e.target.value) || 1)))} title={`Try this many seeds and choose from the best (up to ${maxCandidates(genEngine)} with the ${genEngine.toLowerCase()})`} className="w-full p-2 border rounded bg-gray-50 text-black"/></div>
+                      </div>
                    </div>
+                   {!continueFrom && <>
                    <button onClick={() => setHistoryModalOpen(true)} className="w-full mb-3 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded flex justify-center items-center gap-2 border">
                       <History className="w-3 h-3" /> {manualHistory ? 'Edit Past Week Context' : 'Set Past Week Context'}
                       {manualHistory && <span className="bg-green-500 w-2 h-2 rounded-full"></span>}
                    </button>
-                   <button onClick={handleGenerate} className="w-full bg-blue-600 text-white py-2.5 rounded-lg hover:bg-blue-700">Generate Schedule</button>
+                   <input ref={historyFileRef} type="file" accept=".csv,text/csv,.tsv,text/tab-separated-values" onChange={handleHistoryFile} className="hidden" />
+                   {importedHistory ? (
+                     <div className="w-full mb-3 text-xs bg-green-50 text-green-800 py-2 px-2 rounded flex items-center gap-2 border border-green-200">
+                        <Upload className="w-3 h-3 shrink-0" /> <span className="truncate flex-1" title={importedHistory.sourceName}>{importedHistory.sourceName}</span>
+                        <button onClick={() => setImportedHistory(null)} title="Clear imported history" className="text-green-700 hover:text-red-600"><X className="w-3 h-3" /></button>
+                     </div>
+                   ) : (
+                     <button onClick={() => historyFileRef.current?.click()} className="w-full mb-3 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded flex justify-center items-center gap-2 border">
+                        <Upload className="w-3 h-3" /> Import History CSV
+                     </button>
+                   )}
+                   </>}
+                   {searchProgress ? (
+                     <div className="space-y-2">
+                        <div className="flex justify-between text-xs text-gray-600"><span>{searchProgress.total > 1 ? `Trying seed ${Math.min(searchProgress.done + 1, searchProgress.total)} of ${searchProgress.total}` : 'Generating...'}</span><button onClick={() => { searchCancelledRef.current = true; }} className="text-red-600 hover:underline">Cancel</button></div>
+                        <div className="h-2 bg-gray-100 rounded-full overflow-hidden"><div className={`h-full bg-blue-600 transition-all ${searchProgress.total > 1 ? '' : 'animate-pulse'}`} style={{ width: `${searchProgress.total > 1 ? (searchProgress.done / searchProgress.total) * 100 : 100}%` }}></div></div>
+                     </div>
+                   ) : (
+                     <button onClick={handleGenerate} className="w-full bg-blue-600 text-white py-2.5 rounded-lg hover:bg-blue-700">{seedCount > 1 ? `Try ${seedCount} Seeds` : 'Generate Schedule'}</button>
+                   )}
+                   <FeasibilityPanel report={feasibility} shifts={config.shifts} />
                 </div>
                 <div className="bg-white p-4 rounded-xl shadow border border-gray-100">
-                   <h3 className="font-bold mb-4 flex gap-2"><History className="text-gray-500 w-4 h-4"/> Versions</h3>
+                   <div className="flex justify-between items-center mb-4">
+                      <h3 className="font-bold flex gap-2"><History className="text-gray-500 w-4 h-4"/> Versions</h3>
+                      <input ref={versionFileRef} type="file" accept=".csv,text/csv,.tsv,text/tab-separated-values" onChange={handleVersionFile} className="hidden" />
+                      <button onClick={() => versionFileRef.current?.click()} title="Import a version from CSV" className="text-gray-400 hover:text-blue-600"><Upload className="w-4 h-4"/></button>
+                   </div>
                    <div className="space-y-2 max-h-[300px] overflow-y-auto">
                       {versions.map(v => (
-                        <div key={v.id} onClick={()=>setSelectedVersionId(v.id)} className={`p-3 rounded-lg cursor-pointer border relative group ${selectedVersionId===v.id?'bg-blue-50 border-blue-200':'bg-gray-50 border-transparent hover:bg-gray-100'}`}>
+                        <div key={v.id} onClick={()=>{setSelectedVersionId(v.id); setCompareIds(null)}} className={`p-3 rounded-lg cursor-pointer border relative group ${selectedVersionId===v.id?'bg-blue-50 border-blue-200':'bg-gray-50 border-transparent hover:bg-gray-100'}`}>
                            <div className="text-sm font-medium">{v.name}</div>
+                           {currentVersion && canCompareVersions(currentVersion, v) && (
+                             <button onClick={(e)=>{e.stopPropagation(); setCompareIds({ a: currentVersion.id, b: v.id })}} title={`Compare with ${currentVersion.name}`} className="absolute top-2 right-7 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-blue-600"><GitCompare className="w-3 h-3"/></button>
+                           )}
                            <button onClick={(e)=>{e.stopPropagation(); setVersions(p=>p.filter(ver=>ver.id!==v.id))}} className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"><Trash2 className="w-3 h-3"/></button>
                         </div>
                       ))}
@@ -499,7 +2369,9 @@ const App: React.FC = () => {
                 </div>
              </div>
              <div className="lg:col-span-9">
-                {currentVersion ? <ScheduleViewer version={currentVersion} employees={employees} config={config} onManualUpdate={handleManualAssign} /> : (
+                {compareIds && versions.some(v => v.id === compareIds.a) && versions.some(v => v.id === compareIds.b) ? (
+                  <VersionCompare versions={versions} aId={compareIds.a} bId={compareIds.b} employees={employees} config={config} onChange={(a, b) => setCompareIds({ a, b })} onClose={() => setCompareIds(null)} />
+                ) : currentVersion ? <ScheduleViewer version={currentVersion} employees={employees} config={config} onEdit={handleRosterEdit} canUndo={currentEdits.undo.length > 0} canRedo={currentEdits.redo.length > 0} onUndo={handleUndo} onRedo={handleRedo} onUpdateLocks={handleUpdateLocks} onRegenerate={handleRegenerate} onReproduce={handleReproduce} /> : (
                   <div className="flex flex-col items-center justify-center p-12 bg-white rounded-xl border border-dashed border-gray-300 h-96">
                     <Calendar className="w-12 h-12 text-blue-200 mb-4"/>
                     <h3 className="text-gray-900 font-medium">Ready to Schedule</h3>
@@ -510,7 +2382,12 @@ const App: React.FC = () => {
           </div>
         )}
       </main>
-      <ManualHistoryModal isOpen={historyModalOpen} onClose={() => setHistoryModalOpen(false)} year={genYear} month={genMonth} employees={employees} onSave={setManualHistory} />
+      {pendingHistoryCSV && <HistoryImportModal table={pendingHistoryCSV} employees={employees} config={config} onClose={() => setPendingHistoryCSV(null)} onApply={setImportedHistory} />}
+      {candidates && <CandidatePickerModal candidates={candidates.candidates} tried={candidates.tried} onClose={() => setCandidates(null)} onPick={handlePickCandidate} />}
+      {pendingBackup && <RestoreBackupModal fileName={pendingBackup.name} backup={pendingBackup.backup} summary={pendingBackup.summary} employees={employees} versions={versions} config={config} onClose={() => setPendingBackup(null)} onReplace={() => handleReplaceFromBackup(pendingBackup.backup)} onMerge={handleMergeFromBackup} />}
+      {pendingWorkforce && <WorkforceImportModal file={pendingWorkforce.file} fileName={pendingWorkforce.name} employees={employees} versions={versions} onClose={() => setPendingWorkforce(null)} onApply={setEmployees} />}
+      {pendingVersionCSV && <VersionImportModal table={pendingVersionCSV} employees={employees} config={config} onClose={() => setPendingVersionCSV(null)} onImport={handleImportVersion} />}
+      <ManualHistoryModal isOpen={historyModalOpen} onClose={() => setHistoryModalOpen(false)} year={genYear} month={genMonth} employees={employees} shifts={config.shifts} onSave={setManualHistory} />
     </div>
   );
 };
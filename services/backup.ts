@@ -0,0 +1,262 @@
+import { AppState, Employee, ScheduleVersion, ProjectBackup, ShiftAssignments, GenerationInputs, ShiftConfig } from '../types';
+import { downloadFile } from './download';
+import { CURRENT_SCHEMA_VERSION, isRecord, migrateState } from './storage';
+
+// Whole-project backup: one JSON file with the persisted state and the session's history context.
+// The envelope records the file format and the state's schema version, and a SHA-256 checksum of
+// the data so that truncated or hand-edited files are rejected instead of half-restored.
+
+const BACKUP_FORMAT = 'shiftmaster-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+interface BackupEnvelope {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  createdAt: string; // ISO timestamp
+  checksum: string; // SHA-256 (hex) of JSON.stringify(data)
+  data: ProjectBackup;
+}
+
+export interface BackupSummary {
+  createdAt: string;
+  employees: number;
+  versions: number;
+}
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Explanations are left out as in saved state: they are large, and only hold for the session's employees
+export const buildBackup = async (backup: ProjectBackup): Promise<string> => {
+  const data: ProjectBackup = { ...backup, versions: backup.versions.map(({ explanations, ...v }) => v) };
+  const envelope: BackupEnvelope = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data
+  };
+  return JSON.stringify(envelope);
+};
+
+export const exportBackup = async (backup: ProjectBackup) => {
+  downloadFile(await buildBackup(backup), 'application/json;charset=utf-8', `shiftmaster_backup_${new Date().toISOString().slice(0, 10)}.json`);
+};
+
+// --- Integrity ---
+// Structural checks on the (migrated) data; returns the first few problems found
+const validateBackupData = (data: unknown): string[] => {
+  if (!isRecord(data)) return ['The backup has no project data'];
+  const errors: string[] = [];
+  const uniqueIds = (ids: string[], what: string) => {
+    const seen = new Set<string>();
+    ids.forEach(id => {
+      if (seen.has(id)) errors.push(`${what} ID "${id}" appears twice`);
+      seen.add(id);
+    });
+  };
+  const isIdList = (ids: unknown) => Array.isArray(ids) && ids.every(id => typeof id === 'string');
+
+  if (!Array.isArray(data.employees)) errors.push('Employees are missing');
+  else {
+    const ids: string[] = [];
+    data.employees.forEach((e: unknown, i: number) => {
+      if (!isRecord(e) || typeof e.id !== 'string' || typeof e.name !== 'string') errors.push(`Employee ${i + 1} has no ID or name`);
+      else if (!isRecord(e.availability) || !Array.isArray(e.shiftRequests) || !Array.isArray(e.skills)) errors.push(`Employee "${e.name}" is incomplete`);
+      else ids.push(e.id);
+    });
+    if (errors.length === 0) uniqueIds(ids, 'Employee');
+  }
+
+  const config = data.config;
+  if (!isRecord(config) || !Array.isArray(config.shifts) || !isRecord(config.constraints) || !isRecord(config.requirements)) {
+    errors.push('Shift rules are missing or incomplete');
+  }
+
+  if (!Array.isArray(data.versions)) errors.push('Versions are missing');
+  else {
+    const ids: string[] = [];
+    data.versions.forEach((v: unknown, i: number) => {
+      const label = isRecord(v) && typeof v.name === 'string' ? `Version "${v.name}"` : `Version ${i + 1}`;
+      if (!isRecord(v) || typeof v.id !== 'string' || typeof v.timestamp !== 'number' || typeof v.month !== 'number' || !(v.month >= 0 && v.month <= 11) || typeof v.year !== 'number') {
+        errors.push(`${label} has no valid ID, timestamp or month`);
+      } else if (!Array.isArray(v.schedule) || v.schedule.some((d: unknown) => !isRecord(d) || typeof d.date !== 'string' || !isRecord(d.assignments) || !Object.values(d.assignments).every(isIdList))) {
+        errors.push(`${label} has a malformed schedule`);
+      } else if (!isRecord(v.stats) || !Array.isArray(v.auditLog) || !isRecord(v.locks)) {
+        errors.push(`${label} is incomplete`);
+      } else ids.push(v.id);
+    });
+    if (errors.length === 0) uniqueIds(ids, 'Version');
+  }
+
+  if (data.currentVersionId !== null && data.currentVersionId !== undefined && typeof data.currentVersionId !== 'string') errors.push('The selected version is invalid');
+  return errors.slice(0, 10);
+};
+
+// Parses and verifies a backup file, migrating older schema versions. Throws with a readable
+// message when the file is not a backup, is damaged, or comes from a newer app.
+export const readBackup = async (text: string): Promise<{ backup: ProjectBackup; summary: BackupSummary }> => {
+  let envelope: BackupEnvelope;
+  try {
+    envelope = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (envelope?.format !== BACKUP_FORMAT) throw new Error('The file is not a ShiftMaster backup');
+  if (typeof envelope.formatVersion !== 'number' || envelope.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Backup format v${envelope.formatVersion} is newer than this app understands (v${BACKUP_FORMAT_VERSION}). Please update ShiftMaster.`);
+  }
+  if (typeof envelope.schemaVersion !== 'number' || typeof envelope.data !== 'object' || envelope.data === null) throw new Error('The backup is incomplete');
+  if (await sha256(JSON.stringify(envelope.data)) !== envelope.checksum) {
+    throw new Error('The backup is damaged or was edited after it was made (checksum mismatch)');
+  }
+
+  const { manualHistory, importedHistory, ...state } = envelope.data;
+  let migrated: AppState;
+  try {
+    migrated = migrateState(state, envelope.schemaVersion);
+  } catch (e) {
+    if (envelope.schemaVersion > CURRENT_SCHEMA_VERSION) throw e;
+    throw new Error(`The backup could not be upgraded from schema v${envelope.schemaVersion}: it is incomplete`);
+  }
+  const errors = validateBackupData(migrated);
+  if (errors.length > 0) throw new Error(`The backup failed validation:\n${errors.join('\n')}`);
+
+  return {
+    backup: { ...migrated, currentVersionId: migrated.currentVersionId ?? null, manualHistory: manualHistory ?? null, importedHistory: importedHistory ?? null },
+    summary: { createdAt: envelope.createdAt, employees: migrated.employees.length, versions: migrated.versions.length }
+  };
+};
+
+// --- Merge ---
+export interface BackupMergeResult {
+  employees: Employee[];
+  versions: ScheduleVersion[];
+  matchedEmployees: number;
+  addedEmployees: number;
+  importedVersions: number;
+  skippedVersions: number; // Already present and identical
+  droppedReferences: number; // Skills, time off and requests of added employees naming skills or shifts we lack
+}
+
+// Brings a colleague's versions into our project without touching our employees' details.
+// Their employees are matched to ours by ID, then by (unique, case-insensitive) name; anyone
+// unmatched is added. Versions are rewritten to our employee IDs, and a version whose ID we
+// already use comes in as a copy unless it is identical to ours. Added employees' skills and
+// shift-specific time off and requests are matched to our catalog by ID, then by name; what
+// matches nothing is dropped and counted.
+export const mergeBackup = (employees: Employee[], versions: ScheduleVersion[], config: ShiftConfig, backup: ProjectBackup): BackupMergeResult => {
+  const idMap = new Map<string, string>(); // Their employee ID -> ours
+  const added: Employee[] = [];
+  const usedIds = new Set([...employees.map(e => e.id), ...versions.flatMap(v => Object.keys(v.stats))]);
+  const key = (name: string) => name.trim().toLowerCase();
+  let matched = 0;
+  let dropped = 0;
+
+  const catalogId = <T extends { id: string; name: string }>(ours: T[], theirs: T[], id: string): string | undefined => {
+    if (ours.some(item => item.id === id)) return id;
+    const name = theirs.find(item => item.id === id)?.name;
+    return name === undefined ? undefined : ours.find(item => key(item.name) === key(name))?.id;
+  };
+  const skillId = (id: string) => catalogId(config.skills, backup.config.skills, id);
+  const shiftId = (id: string) => catalogId(config.shifts, backup.config.shifts, id);
+  // Keeps the entries whose shift (if any) we have, rewritten to our shift ID
+  const withOurShifts = <T extends { shiftId?: string }>(entries: T[]): T[] => entries.flatMap(entry => {
+    if (!entry.shiftId) return [entry];
+    const ours = shiftId(entry.shiftId);
+    if (ours) return [{ ...entry, shiftId: ours }];
+    dropped++;
+    return [];
+  });
+
+  // Their ID, unless we already use it
+  const freshId = (theirId: string): string => {
+    const id = usedIds.has(theirId) ? crypto.randomUUID() : theirId;
+    usedIds.add(id);
+    idMap.set(theirId, id);
+    return id;
+  };
+
+  backup.employees.forEach(theirs => {
+    const byId = employees.find(e => e.id === theirs.id);
+    const byName = employees.filter(e => key(e.name) === key(theirs.name));
+    const ours = byId ?? (byName.length === 1 ? byName[0] : undefined);
+    if (ours) {
+      idMap.set(theirs.id, ours.id);
+      matched++;
+      return;
+    }
+    const id = freshId(theirs.id);
+    const skills = theirs.skills.map(skillId).filter((s): s is string => !!s);
+    dropped += theirs.skills.length - skills.length;
+    added.push({
+      ...theirs,
+      id,
+      skills,
+      availability: { ...theirs.availability, timeOff: withOurShifts(theirs.availability.timeOff) },
+      shiftRequests: withOurShifts(theirs.shiftRequests)
+    });
+  });
+
+  // IDs in their versions that belong to no one in either project (people they have since deleted)
+  // get a fresh ID the same way, so they cannot land on one of ours
+  const mapId = (id: string) => idMap.get(id) ?? freshId(id);
+  const mapKeys = <T>(record: Record<string, T>) => Object.fromEntries(Object.entries(record).map(([id, value]) => [mapId(id), value]));
+  const mapAssignments = (assignments: ShiftAssignments): ShiftAssignments =>
+    Object.fromEntries(Object.entries(assignments).map(([shiftId, ids]) => [shiftId, ids.map(mapId)]));
+  const mapInputs = ({ history, manualHistory, fingerprint }: GenerationInputs): GenerationInputs => ({
+    ...(history && { history: {
+      ...history,
+      lastDayAssignments: mapAssignments(history.lastDayAssignments),
+      accumulatedStats: mapKeys(history.accumulatedStats),
+      consecutiveDaysEnding: mapKeys(history.consecutiveDaysEnding),
+      ...(history.precedingDays && { precedingDays: history.precedingDays.map(mapAssignments) }),
+      ...(history.quotaCarry && { quotaCarry: mapKeys(history.quotaCarry) })
+    } }),
+    ...(manualHistory && { manualHistory: Object.fromEntries(Object.entries(manualHistory).map(([date, day]) => [date, mapAssignments(day)])) }),
+    fingerprint
+  });
+  const existing = new Map(versions.map(({ explanations, ...v }) => [v.id, v]));
+  const imported: ScheduleVersion[] = [];
+  const copiedIds = new Map<string, string>(); // Their version ID -> ID of our copy
+  let skipped = 0;
+
+  // Explanations from older backups are dropped rather than remapped
+  backup.versions.forEach(({ explanations, ...v }) => {
+    const remapped: ScheduleVersion = {
+      ...v,
+      schedule: v.schedule.map(d => ({ ...d, assignments: mapAssignments(d.assignments) })),
+      stats: mapKeys(v.stats),
+      auditLog: v.auditLog.map(entry => ({ ...entry, changes: entry.changes.map(c => ({ ...c, employeeId: mapId(c.employeeId) })) })),
+      locks: { ...v.locks, assignments: v.locks.assignments.map(l => ({ ...l, employeeId: mapId(l.employeeId) })) },
+      ...(v.continuity && { continuity: { ...v.continuity, quotaCarry: mapKeys(v.continuity.quotaCarry) } }),
+      ...(v.inputs && { inputs: mapInputs(v.inputs) })
+    };
+    const clash = existing.get(v.id);
+    // Identical as stored means the same version even when its orphan IDs were given fresh ones
+    if (clash && [v, remapped].some(candidate => JSON.stringify(clash) === JSON.stringify(candidate))) { skipped++; return; }
+    if (!clash) { imported.push(remapped); return; }
+    const copy = { ...remapped, id: crypto.randomUUID(), name: `${v.name} (from backup)` };
+    copiedIds.set(v.id, copy.id);
+    imported.push(copy);
+  });
+
+  // Copies keep their chain: a version continuing a copied one points at the copy
+  const chained = imported.map(v => v.continuity && copiedIds.has(v.continuity.previousVersionId)
+    ? { ...v, continuity: { ...v.continuity, previousVersionId: copiedIds.get(v.continuity.previousVersionId)! } }
+    : v);
+
+  return {
+    employees: [...employees, ...added],
+    versions: [...chained, ...versions],
+    matchedEmployees: matched,
+    addedEmployees: added.length,
+    importedVersions: imported.length,
+    skippedVersions: skipped,
+    droppedReferences: dropped
+  };
+};
@@ -0,0 +1,116 @@
+import { DailySchedule, ScheduleVersion, SolverEngine } from '../types';
+import { createRandom, randomSeed, MAX_SEED } from './random';
+
+// --- Best-of-N Search ---
+// Generates the same month with many seeds and keeps the best candidates. Candidates are compared
+// on these criteria in order, each only breaking ties of the ones before it:
+//   1. uncoveredSlots  - empty places on target-month shifts
+//   2. targetDeviation - shifts away from quotas (after carry-over)
+//   3. streakLoad      - sum over every run of consecutive working days of (run length - 1)^2,
+//                        so one long run weighs more than several short ones
+//   4. score           - the solver's weighted score (skills, wishes and fairness included)
+
+export const MAX_CANDIDATES = 200;
+export const MAX_OPTIMIZER_CANDIDATES = 20;
+
+export interface CandidateScore {
+  uncoveredSlots: number;
+  targetDeviation: number;
+  streakLoad: number;
+  score: number;
+}
+
+export interface ScheduleCandidate {
+  version: ScheduleVersion;
+  score: CandidateScore;
+}
+
+export const computeStreakLoad = (schedule: DailySchedule[]): number => {
+  const runs = new Map<string, number>();
+  let load = 0;
+  schedule.forEach(day => {
+    const working = new Set(Object.values(day.assignments).flat());
+    runs.forEach((run, id) => {
+      if (working.has(id)) return;
+      load += (run - 1) ** 2;
+      runs.delete(id);
+    });
+    working.forEach(id => runs.set(id, (runs.get(id) || 0) + 1));
+  });
+  runs.forEach(run => { load += (run - 1) ** 2; });
+  return load;
+};
+
+export const scoreCandidate = (version: ScheduleVersion): CandidateScore => {
+  const report = version.solverReport;
+  const final = report && (report.optimizer || report.greedy);
+  return {
+    uncoveredSlots: final?.uncoveredSlots ?? 0,
+    targetDeviation: final?.targetDeviation ?? 0,
+    streakLoad: computeStreakLoad(version.schedule),
+    score: final?.total ?? 0
+  };
+};
+
+export const compareCandidates = (a: CandidateScore, b: CandidateScore): number =>
+  a.uncoveredSlots - b.uncoveredSlots
+  || a.targetDeviation - b.targetDeviation
+  || a.streakLoad - b.streakLoad
+  || a.score - b.score;
+
+export interface CandidateSearch {
+  candidates: ScheduleCandidate[];
+  tried: number;
+  cancelled: boolean;
+}
+
+// The optimizer takes seconds per month, so it gets a far smaller search
+export const maxCandidates = (engine: SolverEngine): number =>
+  engine === SolverEngine.OPTIMIZER ? MAX_OPTIMIZER_CANDIDATES : MAX_CANDIDATES;
+
+// Lets the browser paint and handle clicks between generations
+const yieldToUI = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Runs `generate` once per seed and returns the best `keep` candidates, best first. With a base
+// seed the candidate seeds are derived from it, so the whole search can be repeated too. Only
+// the best `keep` are held while searching; `isCancelled` stops early with the best so far.
+export const searchCandidates = async (
+  generate: (seed: number) => Promise<ScheduleVersion>,
+  count: number,
+  keep: number,
+  baseSeed?: number,
+  onProgress?: (done: number, total: number) => void,
+  isCancelled?: () => boolean
+): Promise<CandidateSearch> => {
+  const nextSeed = baseSeed === undefined ? randomSeed : (() => {
+    const random = createRandom(baseSeed);
+    return () => Math.floor(random() * (MAX_SEED + 1));
+  })();
+  const total = Math.min(count, MAX_CANDIDATES);
+  const best: ScheduleCandidate[] = [];
+  const seen = new Set<number>();
+  let tried = 0;
+  for (let i = 0; i < total; i++) {
+    if (isCancelled?.()) return { candidates: best, tried, cancelled: true };
+    const seed = nextSeed();
+    if (seen.has(seed)) continue;
+    seen.add(seed);
+    let version: ScheduleVersion;
+    try {
+      version = await generate(seed);
+    } catch (e) {
+      // A generation stopped part-way by cancelling is not a candidate
+      if (isCancelled?.()) return { candidates: best, tried, cancelled: true };
+      throw e;
+    }
+    const candidate = { version, score: scoreCandidate(version) };
+    tried++;
+    const at = best.findIndex(c => compareCandidates(candidate.score, c.score) < 0);
+    if (at >= 0) best.splice(at, 0, candidate);
+    else if (best.length < keep) best.push(candidate);
+    if (best.length > keep) best.pop();
+    onProgress?.(i + 1, total);
+    await yieldToUI();
+  }
+  return { candidates: best, tried, cancelled: false };
+};
@@ -0,0 +1,69 @@
+import { Employee, ShiftConfig, ScheduleVersion, SlotDiff, CoverageSummary, VersionComparison } from '../types';
+import { getAssigned, getDateRequiredCount, getVersionShifts } from './shifts';
+import { findUnmetSkills } from './skills';
+
+// Versions can only be compared when they cover the same month
+export const canCompareVersions = (a: ScheduleVersion, b: ScheduleVersion): boolean =>
+  a.id !== b.id && a.month === b.month && a.year === b.year;
+
+// Removes each ID of `ids` once from `from`, so repeated bookings are compared as counts
+const difference = (ids: string[], from: string[]): string[] => {
+  const rest = [...from];
+  return ids.filter(id => {
+    const idx = rest.indexOf(id);
+    if (idx < 0) return true;
+    rest.splice(idx, 1);
+    return false;
+  });
+};
+
+export const summarizeCoverage = (version: ScheduleVersion, employees: Employee[], config: ShiftConfig): CoverageSummary => {
+  const summary: CoverageSummary = { uncoveredSlots: 0, unmetSkills: 0, gaps: [] };
+  version.schedule.forEach(day => {
+    if (day.isPadding) return;
+    config.shifts.forEach(def => {
+      const missing = Math.max(0, getDateRequiredCount(config, day.date, def.id) - getAssigned(day, def.id).length);
+      const unmet = findUnmetSkills(day, def.id, employees, config);
+      if (missing === 0 && unmet.length === 0) return;
+      summary.uncoveredSlots += missing;
+      summary.unmetSkills += unmet.reduce((sum, u) => sum + u.missing, 0);
+      summary.gaps.push({
+        date: day.date,
+        shiftId: def.id,
+        missing,
+        missingSkills: unmet.map(u => config.skills.find(s => s.id === u.skillId)?.name ?? u.skillId)
+      });
+    });
+  });
+  return summary;
+};
+
+// Slot-by-slot differences between two versions of the same month, plus each one's coverage gaps.
+// Padding days are compared too, since they can differ when history changed between runs.
+export const compareVersions = (
+  a: ScheduleVersion,
+  b: ScheduleVersion,
+  employees: Employee[],
+  config: ShiftConfig
+): VersionComparison => {
+  const shiftIds = new Set([...getVersionShifts(a.schedule, config), ...getVersionShifts(b.schedule, config)].map(s => s.id));
+  const slotDiffs: SlotDiff[] = [];
+
+  a.schedule.forEach(dayA => {
+    const dayB = b.schedule.find(d => d.date === dayA.date);
+    if (!dayB) return;
+    shiftIds.forEach(shiftId => {
+      const before = getAssigned(dayA, shiftId);
+      const after = getAssigned(dayB, shiftId);
+      const removed = difference(before, after);
+      const added = difference(after, before);
+      if (removed.length > 0 || added.length > 0) slotDiffs.push({ date: dayA.date, shiftId, removed, added });
+    });
+  });
+
+  return {
+    slotDiffs,
+    changedDates: Array.from(new Set(slotDiffs.map(d => d.date))),
+    coverage: [summarizeCoverage(a, employees, config), summarizeCoverage(b, employees, config)]
+  };
+};
@@ -0,0 +1,139 @@
+import {
+  Employee,
+  ShiftConfig,
+  DailySchedule,
+  ShiftType,
+  HistoricalContext,
+  HardConstraints,
+  ConstraintRule,
+  TimeOffEntry
+} from '../types';
+import { formatDateKey } from './dates';
+import { getShiftDefinition, getShiftWindow, getAssigned, findEmployeeShift, canWorkShiftType } from './shifts';
+
+export const DEFAULT_HARD_CONSTRAINTS: HardConstraints = {
+  maxConsecutiveDays: 5,
+  minRestHours: 11,
+  maxNightsPerWeek: null,
+  minDaysOffPer7Days: null
+};
+
+export const CONSTRAINT_LABELS: Record<ConstraintRule, string> = {
+  [ConstraintRule.DAY_OFF]: 'Day off',
+  [ConstraintRule.TIME_OFF]: 'Time off',
+  [ConstraintRule.PREFERENCE]: 'Shift preference',
+  [ConstraintRule.DOUBLE_BOOKED]: 'Already working that day',
+  [ConstraintRule.MAX_CONSECUTIVE]: 'Max consecutive days',
+  [ConstraintRule.MIN_REST]: 'Minimum rest',
+  [ConstraintRule.MAX_NIGHTS_PER_WEEK]: 'Max nights per week',
+  [ConstraintRule.MIN_DAYS_OFF]: 'Min days off per 7 days'
+};
+
+// What the rules look at: the schedule around the candidate (days after it may be missing)
+// and the history that precedes day 0.
+export interface ConstraintContext {
+  schedule: DailySchedule[];
+  config: ShiftConfig;
+  history?: HistoricalContext;
+}
+
+// Time-off entries of an employee that block this date (and shift, when given)
+export const getTimeOffOn = (emp: Employee, dateKey: string, shiftId?: string): TimeOffEntry[] =>
+  emp.availability.timeOff.filter(t =>
+    t.startDate <= dateKey && dateKey <= t.endDate && (!shiftId || !t.shiftId || t.shiftId === shiftId)
+  );
+
+const UNKNOWN_SHIFT = '?';
+
+// Which shift an employee worked on a day. Negative indexes are answered from history: exactly
+// when it carries the preceding days, otherwise the streak tells us they worked, and the last
+// day's assignments tell us which shift on day -1.
+const shiftOn = (empId: string, dayIdx: number, ctx: ConstraintContext): string | null => {
+  if (dayIdx < 0) {
+    const preceding = ctx.history?.precedingDays;
+    if (preceding && -dayIdx <= preceding.length) {
+      const assignments = preceding[preceding.length + dayIdx];
+      return Object.keys(assignments).find(id => assignments[id].includes(empId)) || null;
+    }
+    if (dayIdx === -1 && ctx.history) {
+      const lastShift = Object.keys(ctx.history.lastDayAssignments).find(id => ctx.history!.lastDayAssignments[id].includes(empId));
+      if (lastShift) return lastShift;
+    }
+    const streak = ctx.history?.consecutiveDaysEnding[empId] || 0;
+    return -dayIdx <= streak ? UNKNOWN_SHIFT : null;
+  }
+  const day = ctx.schedule[dayIdx];
+  return day ? findEmployeeShift(day, empId) : null;
+};
+
+// Every hard rule broken by `emp` working `shiftId` on `schedule[dayIdx]` (which may already
+// contain that assignment). An empty list means the placement is allowed.
+export const findConstraintViolations = (
+  emp: Employee,
+  dayIdx: number,
+  date: Date,
+  shiftId: string,
+  ctx: ConstraintContext
+): ConstraintRule[] => {
+  const rules = ctx.config.constraints;
+  const def = getShiftDefinition(ctx.config, shiftId);
+  const violations: ConstraintRule[] = [];
+  const worksOn = (idx: number) => idx === dayIdx || shiftOn(emp.id, idx, ctx) !== null;
+
+  // Availability
+  if (emp.availability.daysOff.includes(date.getDay())) violations.push(ConstraintRule.DAY_OFF);
+  if (getTimeOffOn(emp, formatDateKey(date), shiftId).length > 0) violations.push(ConstraintRule.TIME_OFF);
+  if (def && !canWorkShiftType(emp, def.type)) violations.push(ConstraintRule.PREFERENCE);
+
+  // One shift per day
+  const today = ctx.schedule[dayIdx];
+  if (today) {
+    const occurrences = Object.values(today.assignments).flat().filter(id => id === emp.id).length;
+    if (occurrences - (getAssigned(today, shiftId).includes(emp.id) ? 1 : 0) > 0) violations.push(ConstraintRule.DOUBLE_BOOKED);
+  }
+
+  // Consecutive days, counting the streak the history ended with
+  if (rules.maxConsecutiveDays !== null) {
+    let run = 1;
+    for (let i = dayIdx - 1; worksOn(i) && run <= rules.maxConsecutiveDays; i--) run++;
+    for (let i = dayIdx + 1; worksOn(i) && run <= rules.maxConsecutiveDays; i++) run++;
+    if (run > rules.maxConsecutiveDays) violations.push(ConstraintRule.MAX_CONSECUTIVE);
+  }
+
+  // Rest between this shift and the closest known shifts either side, from the actual shift times.
+  // Without a configured minimum, shifts still may not overlap.
+  if (def) {
+    const minRest = rules.minRestHours ?? 0;
+    const [start, end] = getShiftWindow(def, dayIdx);
+    let tooShort = false;
+    for (let k = 1; k <= 2 && !tooShort; k++) {
+      const prev = getShiftDefinition(ctx.config, shiftOn(emp.id, dayIdx - k, ctx) || '');
+      if (prev) tooShort = start - getShiftWindow(prev, dayIdx - k)[1] < minRest;
+      const next = getShiftDefinition(ctx.config, shiftOn(emp.id, dayIdx + k, ctx) || '');
+      if (!tooShort && next) tooShort = getShiftWindow(next, dayIdx + k)[0] - end < minRest;
+    }
+    if (tooShort) violations.push(ConstraintRule.MIN_REST);
+  }
+
+  // Night-type shifts within the calendar week (Sun-Sat) of this day
+  if (rules.maxNightsPerWeek !== null && def?.type === ShiftType.NIGHT) {
+    const weekStart = dayIdx - date.getDay();
+    let nights = 1;
+    for (let i = weekStart; i < weekStart + 7; i++) {
+      if (i !== dayIdx && getShiftDefinition(ctx.config, shiftOn(emp.id, i, ctx) || '')?.type === ShiftType.NIGHT) nights++;
+    }
+    if (nights > rules.maxNightsPerWeek) violations.push(ConstraintRule.MAX_NIGHTS_PER_WEEK);
+  }
+
+  // Every rolling 7-day window containing this day needs enough days off
+  if (rules.minDaysOffPer7Days !== null) {
+    const maxWorked = 7 - rules.minDaysOffPer7Days;
+    for (let windowStart = dayIdx - 6; windowStart <= dayIdx; windowStart++) {
+      let worked = 0;
+      for (let i = windowStart; i < windowStart + 7; i++) if (worksOn(i)) worked++;
+      if (worked > maxWorked) { violations.push(ConstraintRule.MIN_DAYS_OFF); break; }
+    }
+  }
+
+  return violations;
+};
@@ -0,0 +1,97 @@
+import { Employee, ScheduleVersion, HistoricalContext, ManualHistoryInput, StatsRollover, VersionContinuity } from '../types';
+import { formatDateKey } from './dates';
+
+// --- Multi-month Continuity ---
+// Generating month N+1 straight from a saved month-N version: the days before the new grid become
+// exact history, the days both grids share are kept as they were, and with quarterly rollover the
+// totals and quota shortfalls of earlier months in the quarter carry into fairness and quotas.
+
+export interface ContinuityPlan {
+  history: HistoricalContext;
+  manualHistory: ManualHistoryInput; // Days the previous roster already covers, taken exactly as given
+  continuity: VersionContinuity;
+}
+
+// True if the version is for the month just before year/month
+export const isPreviousMonth = (version: ScheduleVersion, year: number, month: number): boolean => {
+  const prev = new Date(year, month - 1, 1);
+  return version.year === prev.getFullYear() && version.month === prev.getMonth();
+};
+
+const quarterOf = (year: number, month: number) => year * 4 + Math.floor(month / 3);
+
+// The previous version and its own predecessors, as long as they fall in the target month's quarter
+const versionsInQuarter = (previous: ScheduleVersion, versions: ScheduleVersion[], year: number, month: number): ScheduleVersion[] => {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const chain: ScheduleVersion[] = [];
+  let v: ScheduleVersion | undefined = previous;
+  while (v && quarterOf(v.year, v.month) === quarterOf(year, month) && !chain.includes(v)) {
+    chain.push(v);
+    v = v.continuity && byId.get(v.continuity.previousVersionId);
+  }
+  return chain;
+};
+
+// The quota an employee works towards this month after carry-over; undefined without a quota
+export const getMonthTarget = (emp: Employee, quotaCarry?: Record<string, number>): number | undefined =>
+  emp.targetShifts && emp.targetShifts > 0 ? Math.max(0, emp.targetShifts + (quotaCarry?.[emp.id] || 0)) : undefined;
+
+export const planContinuation = (
+  previous: ScheduleVersion,
+  versions: ScheduleVersion[],
+  employees: Employee[],
+  year: number,
+  month: number,
+  rollover: StatsRollover
+): ContinuityPlan => {
+  const first = new Date(year, month, 1);
+  const gridStart = formatDateKey(new Date(year, month, 1 - first.getDay()));
+  const days = [...previous.schedule].sort((a, b) => a.date.localeCompare(b.date));
+  const before = days.filter(d => d.date < gridStart);
+  const overlap = days.filter(d => d.date >= gridStart);
+
+  const manualHistory: ManualHistoryInput = {};
+  overlap.forEach(d => {
+    manualHistory[d.date] = Object.fromEntries(Object.entries(d.assignments).map(([shiftId, ids]) => [shiftId, [...ids]]));
+  });
+
+  const consecutiveDaysEnding: Record<string, number> = {};
+  employees.forEach(e => {
+    let streak = 0;
+    for (let i = before.length - 1; i >= 0 && Object.values(before[i].assignments).some(ids => ids.includes(e.id)); i--) streak++;
+    consecutiveDaysEnding[e.id] = streak;
+  });
+
+  const rolled = rollover === StatsRollover.QUARTERLY ? versionsInQuarter(previous, versions, year, month) : [];
+  const accumulatedStats: HistoricalContext['accumulatedStats'] = {};
+  const quotaCarry: Record<string, number> = {};
+  employees.forEach(e => {
+    const acc = { day: 0, night: 0, total: 0, weekend: 0, holiday: 0 };
+    let carry = 0;
+    rolled.forEach(v => {
+      const st = v.stats[e.id];
+      if (!st) return; // Not employed that month, so nothing owed either
+      acc.day += st.dayShifts;
+      acc.night += st.nightShifts;
+      acc.total += st.totalShifts;
+      acc.weekend += st.weekendShifts;
+      acc.holiday += st.holidayShifts;
+      if (e.targetShifts && e.targetShifts > 0) carry += e.targetShifts - st.totalShifts;
+    });
+    accumulatedStats[e.id] = acc;
+    if (carry !== 0) quotaCarry[e.id] = carry;
+  });
+
+  return {
+    history: {
+      sourceName: previous.name,
+      lastDayAssignments: before.length > 0 ? before[before.length - 1].assignments : {},
+      accumulatedStats,
+      consecutiveDaysEnding,
+      precedingDays: before.map(d => d.assignments),
+      quotaCarry
+    },
+    manualHistory,
+    continuity: { previousVersionId: previous.id, rollover, quotaCarry }
+  };
+};
@@ -0,0 +1,69 @@
+// RFC 4180 CSV reading and writing: quoted fields may contain delimiters, quotes ("") and line breaks.
+
+export const CSV_MIME = 'text/csv;charset=utf-8;';
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+// Picks the delimiter that occurs most often (outside quotes) on the first non-empty line.
+// Excel writes ';' in locales that use a decimal comma, and tabs come from pasted spreadsheets.
+export const detectDelimiter = (text: string): string => {
+  const counts = new Map(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+  let seenContent = false;
+  for (const char of text.replace(/^\uFEFF/, '')) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) { if (seenContent) break; }
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+    if (char !== '\n' && char !== '\r') seenContent = true;
+  }
+  let best = ',';
+  counts.forEach((count, d) => { if (count > counts.get(best)!) best = d; });
+  return best;
+};
+
+// Splits text into rows of fields. Accepts CRLF, LF and lone CR line endings and a leading BOM.
+// Blank lines are kept as [''] so that callers can use them as section breaks.
+export const parseCSV = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRow = () => { row.push(field); rows.push(row); row = []; field = ''; };
+
+  while (i < input.length) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') { field += '"'; i += 2; continue; }
+      if (char === '"') { inQuotes = false; i++; continue; }
+      field += char;
+      i++;
+      continue;
+    }
+    if (char === '"' && field === '') { inQuotes = true; i++; continue; }
+    if (char === delimiter) { row.push(field); field = ''; i++; continue; }
+    if (char === '\r' || char === '\n') {
+      endRow();
+      i += char === '\r' && input[i + 1] === '\n' ? 2 : 1;
+      continue;
+    }
+    field += char;
+    i++;
+  }
+  if (inQuotes) throw new Error('Unterminated quoted field at end of file');
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+export const isBlankRow = (row: string[]): boolean => row.every(cell => cell.trim() === '');
+
+const quoteField = (value: string, delimiter: string): string =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+// Joins rows with CRLF as RFC 4180 specifies, quoting only the fields that need it
+export const formatCSV = (rows: string[][], delimiter: string = ','): string =>
+  rows.map(row => row.map(v => quoteField(v, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
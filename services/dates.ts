@@ -0,0 +1,13 @@
+// Helper to format date as YYYY-MM-DD
+export const formatDateKey = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+// Inverse of formatDateKey, in local time (new Date('YYYY-MM-DD') would be UTC midnight)
+export const parseDateKey = (dateKey: string): Date => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
@@ -0,0 +1,54 @@
+import { ScheduleVersion, SlotExplanation, SlotRef, RankFactors, ConstraintRule } from '../types';
+import { CONSTRAINT_LABELS } from './constraints';
+import { getAssigned } from './shifts';
+
+// Readable summaries of the generator's reasoning for the calendar's hover titles and the detail view.
+
+export const findExplanation = (version: ScheduleVersion, slot: SlotRef): SlotExplanation | undefined =>
+  version.explanations?.find(x => x.date === slot.date && x.shiftId === slot.shiftId);
+
+export const describeWish = (wish: number): string => wish > 0 ? 'Wants it' : wish < 0 ? 'Avoids it' : 'No request';
+
+export const describeFactors = (f: RankFactors): string => [
+  f.metTarget ? 'Quota met' : null,
+  f.pacing,
+  f.wish !== 0 ? describeWish(f.wish) : null,
+  f.undesirable !== undefined ? `Undesirable ${f.undesirable}` : null,
+  `Fairness ${f.fairness}`
+].filter(Boolean).join(' · ');
+
+// "3 × Day off, 1 × Max consecutive days", most common reason first
+export const summarizeExclusions = (explanation: SlotExplanation): string => {
+  const counts = new Map<ConstraintRule, number>();
+  explanation.candidates.forEach(c => c.excludedBy?.forEach(rule => counts.set(rule, (counts.get(rule) || 0) + 1)));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([rule, n]) => `${n} × ${CONSTRAINT_LABELS[rule]}`)
+    .join(', ');
+};
+
+// Hover text for an empty place in a slot
+export const explainEmpty = (explanation: SlotExplanation): string => {
+  const eligible = explanation.candidates.filter(c => !c.excludedBy);
+  const excluded = explanation.candidates.length - eligible.length;
+  if (eligible.length === 0) return `Everyone was excluded: ${summarizeExclusions(explanation)}`;
+  return `Only ${eligible.length} eligible (${excluded} excluded: ${summarizeExclusions(explanation) || 'none'})`;
+};
+
+// Hover text for an assigned worker
+export const explainAssignment = (explanation: SlotExplanation, employeeId: string): string => {
+  if (explanation.locked.includes(employeeId)) return 'Pinned before generation';
+  const eligible = explanation.candidates.filter(c => !c.excludedBy);
+  const rank = eligible.findIndex(c => c.employeeId === employeeId);
+  const candidate = eligible[rank];
+  if (!candidate?.picked) return 'Placed after generation (optimizer or manual edit)';
+  return `Ranked ${rank + 1} of ${eligible.length}: ${describeFactors(candidate.factors!)}`;
+};
+
+// True if the slot no longer holds what the generator picked (optimizer or manual edits)
+export const slotChangedSince = (version: ScheduleVersion, explanation: SlotExplanation): boolean => {
+  const day = version.schedule.find(d => d.date === explanation.date);
+  const now = day ? getAssigned(day, explanation.shiftId) : [];
+  const generated = [...explanation.locked, ...explanation.candidates.filter(c => c.picked).map(c => c.employeeId)];
+  return now.length !== generated.length || now.some(id => !generated.includes(id));
+};
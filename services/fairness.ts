@@ -0,0 +1,89 @@
+import { Employee, EmployeeStats, HistoricalContext, ShiftConfig, ShiftDefinition, ShiftType, UndesirableCategory } from '../types';
+import { parseDateKey } from './dates';
+import { canWorkShiftType, getHoliday } from './shifts';
+
+// --- Undesirable Shifts ---
+// Weekend, holiday and night shifts are counted apart from the total. The categories marked in the
+// rules are shared out evenly on their own: the generator ranks by them ahead of total shifts, the
+// optimizer scores their spread, and the Stats view rates how evenly each one came out.
+
+export const DEFAULT_WEEKEND_DAYS = [0, 6];
+// New projects and ones saved before categories existed start with all of them marked
+export const DEFAULT_UNDESIRABLE = [UndesirableCategory.WEEKEND, UndesirableCategory.HOLIDAY, UndesirableCategory.NIGHT];
+
+export enum FairnessLevel {
+  BALANCED = 'Balanced', // Everyone within one shift of each other
+  UNEVEN = 'Uneven', // Within three
+  UNFAIR = 'Unfair'
+}
+
+// Where each category is counted in EmployeeStats and in a history's accumulated stats
+export const UNDESIRABLE_STATS: Record<UndesirableCategory, 'weekendShifts' | 'holidayShifts' | 'nightShifts'> = {
+  [UndesirableCategory.WEEKEND]: 'weekendShifts',
+  [UndesirableCategory.HOLIDAY]: 'holidayShifts',
+  [UndesirableCategory.NIGHT]: 'nightShifts'
+};
+export const ACCUMULATED_STATS: Record<UndesirableCategory, 'weekend' | 'holiday' | 'night'> = {
+  [UndesirableCategory.WEEKEND]: 'weekend',
+  [UndesirableCategory.HOLIDAY]: 'holiday',
+  [UndesirableCategory.NIGHT]: 'night'
+};
+
+// Every category a slot falls under, marked or not
+export const getSlotCategories = (config: ShiftConfig, dateKey: string, def: ShiftDefinition): UndesirableCategory[] => {
+  const categories: UndesirableCategory[] = [];
+  if (config.weekendDays.includes(parseDateKey(dateKey).getDay())) categories.push(UndesirableCategory.WEEKEND);
+  if (getHoliday(config, dateKey)) categories.push(UndesirableCategory.HOLIDAY);
+  if (def.type === ShiftType.NIGHT) categories.push(UndesirableCategory.NIGHT);
+  return categories;
+};
+
+// The categories of a slot that the rules mark as undesirable
+export const getMarkedCategories = (config: ShiftConfig, dateKey: string, def: ShiftDefinition): UndesirableCategory[] =>
+  getSlotCategories(config, dateKey, def).filter(c => config.undesirable.includes(c));
+
+export const getHistoryCount = (history: HistoricalContext | undefined, employeeId: string, category: UndesirableCategory): number =>
+  history?.accumulatedStats[employeeId]?.[ACCUMULATED_STATS[category]] || 0;
+
+// Whether a category can come up for an employee at all; those it can't are left out of its spread
+export const canWorkCategory = (emp: Employee, config: ShiftConfig, category: UndesirableCategory): boolean => {
+  if (category === UndesirableCategory.NIGHT) return canWorkShiftType(emp, ShiftType.NIGHT) && config.shifts.some(s => s.type === ShiftType.NIGHT);
+  if (category === UndesirableCategory.WEEKEND) return config.weekendDays.some(d => !emp.availability.daysOff.includes(d));
+  return true;
+};
+
+// Sum of |count - mean|; zero when everyone has the same
+export const deviationFromMean = (counts: number[]): number => {
+  if (counts.length < 2) return 0;
+  const mean = counts.reduce((a, b) => a + b, 0) / counts.length;
+  return counts.reduce((sum, c) => sum + Math.abs(c - mean), 0);
+};
+
+export interface CategoryDistribution {
+  category: UndesirableCategory;
+  counts: Record<string, number>; // Employee ID -> month count, for those who can work the category
+  min: number;
+  max: number;
+  mean: number;
+  level: FairnessLevel;
+}
+
+// How evenly each marked category was shared out in a month
+export const summarizeUndesirable = (stats: Record<string, EmployeeStats>, employees: Employee[], config: ShiftConfig): CategoryDistribution[] =>
+  config.undesirable.map(category => {
+    const counts = Object.fromEntries(employees
+      .filter(e => canWorkCategory(e, config, category))
+      .map(e => [e.id, stats[e.id]?.[UNDESIRABLE_STATS[category]] || 0]));
+    const values = Object.values(counts);
+    const min = values.length > 0 ? Math.min(...values) : 0;
+    const max = values.length > 0 ? Math.max(...values) : 0;
+    const spread = max - min;
+    return {
+      category,
+      counts,
+      min,
+      max,
+      mean: values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0,
+      level: spread <= 1 ? FairnessLevel.BALANCED : spread <= 3 ? FairnessLevel.UNEVEN : FairnessLevel.UNFAIR
+    };
+  });
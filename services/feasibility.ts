@@ -0,0 +1,150 @@
+import { Employee, ShiftConfig, ShiftType, ViolationSeverity } from '../types';
+import { formatDateKey } from './dates';
+import { getTimeOffOn } from './constraints';
+import { canWorkShiftType, getRequiredCount, getDateRequiredCount, getHoliday, getDateOverride } from './shifts';
+import { getSkillMinimums, getDateSkillMinimums, hasSkill } from './skills';
+
+// --- Feasibility Analysis ---
+// Compares the demand in the requirements with the supply of workers before generating, so that
+// shortfalls no schedule can fix are reported up front. Errors mean some slots must stay empty;
+// warnings mean quotas cannot all be met or single dates are short because of time off.
+// Holidays and date overrides are checked per date, where they differ from the weekday.
+
+const WEEKDAYS_PLURAL = ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays'];
+
+export interface FeasibilityIssue {
+  severity: ViolationSeverity;
+  message: string;
+  weekday?: number;
+  shiftId?: string;
+  date?: string; // ISO YYYY-MM-DD
+  employeeId?: string;
+}
+
+// Workers who could ever take a shift on a weekday: not a day off, and a shift type they work
+export interface SlotSupply {
+  weekday: number;
+  shiftId: string;
+  required: number;
+  eligible: number;
+}
+
+export interface FeasibilityReport {
+  issues: FeasibilityIssue[];
+  supply: SlotSupply[];
+  demand: number; // Shifts to fill in the month
+  capacity: number; // Most shifts the workforce can work under the hard rules
+}
+
+const worksWeekday = (emp: Employee, weekday: number) => !emp.availability.daysOff.includes(weekday);
+
+// Most shifts an employee can work in the month: days they are free for a shift that needs people,
+// taken as early as possible within the consecutive-day cap, the days-off-per-7 rule and the weekly
+// night cap (only binding on days when night shifts are all they can do).
+const monthCapacity = (emp: Employee, dates: Date[], config: ShiftConfig): number => {
+  const { maxConsecutiveDays, minDaysOffPer7Days, maxNightsPerWeek } = config.constraints;
+  const worked: boolean[] = [];
+  let run = 0;
+  let nightsThisWeek = 0;
+  dates.forEach(date => {
+    if (date.getDay() === 0) nightsThisWeek = 0;
+    const key = formatDateKey(date);
+    const open = (type: ShiftType) => worksWeekday(emp, date.getDay()) && config.shifts.some(def =>
+      def.type === type && canWorkShiftType(emp, def.type) && getDateRequiredCount(config, key, def.id) > 0 && getTimeOffOn(emp, key, def.id).length === 0);
+    const canDay = open(ShiftType.DAY);
+    const canNight = open(ShiftType.NIGHT) && (maxNightsPerWeek === null || nightsThisWeek < maxNightsPerWeek);
+    const lastSix = worked.slice(-6).filter(Boolean).length;
+    const works = (canDay || canNight)
+      && (maxConsecutiveDays === null || run < maxConsecutiveDays)
+      && (minDaysOffPer7Days === null || lastSix < 7 - minDaysOffPer7Days);
+    if (works && !canDay) nightsThisWeek++;
+    run = works ? run + 1 : 0;
+    worked.push(works);
+  });
+  return worked.filter(Boolean).length;
+};
+
+export const analyzeFeasibility = (employees: Employee[], config: ShiftConfig, year: number, month: number): FeasibilityReport => {
+  const issues: FeasibilityIssue[] = [];
+  const supply: SlotSupply[] = [];
+  const skillName = (id: string) => config.skills.find(s => s.id === id)?.name ?? id;
+  const eligibleFor = (weekday: number, type: ShiftType) => employees.filter(e => worksWeekday(e, weekday) && canWorkShiftType(e, type));
+
+  // Structural shortfalls, per weekday
+  for (let weekday = 0; weekday < 7; weekday++) {
+    let dayDemand = 0;
+    const availableToday = new Set<string>();
+    config.shifts.forEach(def => {
+      const required = getRequiredCount(config, weekday, def.id);
+      const eligible = eligibleFor(weekday, def.type);
+      supply.push({ weekday, shiftId: def.id, required, eligible: eligible.length });
+      if (required <= 0) return;
+      dayDemand += required;
+      eligible.forEach(e => availableToday.add(e.id));
+      if (eligible.length < required) {
+        issues.push({ severity: ViolationSeverity.ERROR, weekday, shiftId: def.id, message: `Only ${eligible.length} eligible ${def.name} worker${eligible.length === 1 ? '' : 's'} on ${WEEKDAYS_PLURAL[weekday]}, but ${required} required` });
+      }
+      Object.entries(getSkillMinimums(config, weekday, def.id)).forEach(([skillId, min]) => {
+        const qualified = eligible.filter(e => hasSkill(e, skillId)).length;
+        if (qualified < min) {
+          issues.push({ severity: ViolationSeverity.ERROR, weekday, shiftId: def.id, message: `Only ${qualified} eligible ${def.name} worker${qualified === 1 ? '' : 's'} with ${skillName(skillId)} on ${WEEKDAYS_PLURAL[weekday]}, but ${min} required` });
+        }
+      });
+    });
+    // Nobody works two shifts on one day
+    if (availableToday.size < dayDemand) {
+      issues.push({ severity: ViolationSeverity.ERROR, weekday, message: `${WEEKDAYS_PLURAL[weekday]} need ${dayDemand} workers across all shifts, but only ${availableToday.size} are available` });
+    }
+  }
+
+  // Dates made short by their holiday or override, or by time off, where the weekday itself is fine
+  const dates: Date[] = [];
+  for (let d = new Date(year, month, 1); d.getMonth() === month; d = new Date(year, month, d.getDate() + 1)) dates.push(d);
+  dates.forEach(date => {
+    const key = formatDateKey(date);
+    const label = date.toLocaleDateString('default', { weekday: 'short', month: 'short', day: 'numeric' });
+    const special = getHoliday(config, key)?.name ?? (getDateOverride(config, key) && 'date override');
+    config.shifts.forEach(def => {
+      const required = getDateRequiredCount(config, key, def.id);
+      const weekdayRequired = getRequiredCount(config, date.getDay(), def.id);
+      const eligible = eligibleFor(date.getDay(), def.type);
+      if (eligible.length < required) {
+        if (eligible.length >= weekdayRequired) {
+          issues.push({ severity: ViolationSeverity.ERROR, date: key, shiftId: def.id, message: `${label} ${def.name} (${special}): only ${eligible.length} eligible, but ${required} required` });
+        }
+        return; // Otherwise already reported for the weekday
+      }
+      const weekdayMinimums = getSkillMinimums(config, date.getDay(), def.id);
+      Object.entries(getDateSkillMinimums(config, key, def.id)).forEach(([skillId, min]) => {
+        const qualified = eligible.filter(e => hasSkill(e, skillId)).length;
+        if (qualified < min && qualified >= (weekdayMinimums[skillId] || 0)) {
+          issues.push({ severity: ViolationSeverity.ERROR, date: key, shiftId: def.id, message: `${label} ${def.name} (${special}): only ${qualified} eligible with ${skillName(skillId)}, but ${min} required` });
+        }
+      });
+      const away = eligible.filter(e => getTimeOffOn(e, key, def.id).length > 0).length;
+      if (eligible.length - away < required) {
+        issues.push({ severity: ViolationSeverity.WARNING, date: key, shiftId: def.id, message: `${label} ${def.name}: only ${eligible.length - away} available (${away} on time off), but ${required} required` });
+      }
+    });
+  });
+
+  // Month totals and quotas
+  const demand = dates.reduce((sum, date) => sum + config.shifts.reduce((s, def) => s + getDateRequiredCount(config, formatDateKey(date), def.id), 0), 0);
+  const capacities = new Map(employees.map(e => [e.id, monthCapacity(e, dates, config)]));
+  const capacity = Array.from(capacities.values()).reduce((a, b) => a + b, 0);
+  if (capacity < demand) {
+    issues.push({ severity: ViolationSeverity.ERROR, message: `The month needs ${demand} shifts, but the workforce can work at most ${capacity} under the hard rules` });
+  }
+  employees.forEach(e => {
+    const max = capacities.get(e.id)!;
+    if (e.targetShifts && e.targetShifts > max) {
+      issues.push({ severity: ViolationSeverity.WARNING, employeeId: e.id, message: `${e.name}'s quota of ${e.targetShifts} can't be met: at most ${max} shifts are possible` });
+    }
+  });
+  const quotaTotal = employees.reduce((sum, e) => sum + (e.targetShifts && e.targetShifts > 0 ? e.targetShifts : 0), 0);
+  if (quotaTotal > demand) {
+    issues.push({ severity: ViolationSeverity.WARNING, message: `Quotas add up to ${quotaTotal} shifts, but the month only has ${demand} to fill` });
+  }
+
+  return { issues, supply, demand, capacity };
+};
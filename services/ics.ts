@@ -0,0 +1,226 @@
+import { Employee, ShiftConfig, ScheduleVersion, AuditAction } from '../types';
+import { formatDateKey, parseDateKey } from './dates';
+import { downloadFile } from './download';
+import { getShiftDefinition, getShiftWindow } from './shifts';
+import { createZip } from './zip';
+
+// iCalendar (RFC 5545) export. Times are written as floating local times, so a 22:00-06:00 shift
+// shows at 22:00 wherever the phone is set, and the end falls on the next calendar day.
+// Holiday calendars can be read back in (all-day events only).
+
+const ICS_MIME = 'text/calendar;charset=utf-8';
+
+interface ShiftEvent {
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+  description: string;
+  sequence: number;
+  cancelled?: boolean;
+}
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded with CRLF + space, without splitting a UTF-8 sequence
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// YYYYMMDDTHHMMSS for a date key plus a number of hours (may run past midnight)
+const formatLocalDateTime = (dateKey: string, hours: number): string => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const t = new Date(Date.UTC(y, m - 1, d) + Math.round(hours * 60) * 60000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${t.getUTCFullYear()}${pad(t.getUTCMonth() + 1)}${pad(t.getUTCDate())}T${pad(t.getUTCHours())}${pad(t.getUTCMinutes())}00`;
+};
+
+const formatUtcStamp = (timestamp: number): string =>
+  new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// One event per worked target-month day. The UID is keyed on employee and date only (a person
+// works at most one shift a day), so importing a later version of the month updates the same
+// events even when the shift or the version changed. Days someone was removed from by a roster
+// edit, and no longer works, are sent as cancelled events; days that only another version of the
+// month had are not known here and stay in the calendar.
+const collectEvents = (version: ScheduleVersion, employees: Employee[], config: ShiftConfig, employeeId?: string): ShiftEvent[] => {
+  const events: ShiftEvent[] = [];
+  // Revision of each event: how many roster edits touched that person on that day
+  const revisions = new Map<string, number>();
+  version.auditLog.forEach(entry => {
+    new Set(entry.changes.map(c => `${c.date}-${c.employeeId}`)).forEach(key => revisions.set(key, (revisions.get(key) || 0) + 1));
+  });
+  const eventFor = (date: string, shiftId: string, id: string, name: string): ShiftEvent | null => {
+    const def = getShiftDefinition(config, shiftId);
+    if (!def) return null; // Deleted shifts have no times to export
+    const [start, end] = getShiftWindow(def, 0);
+    return {
+      uid: `${date}-${id}@shiftmaster`,
+      start: formatLocalDateTime(date, start),
+      end: formatLocalDateTime(date, end),
+      summary: employeeId ? `${def.name} shift` : `${name} - ${def.name} shift`,
+      description: `${def.startTime}-${def.endTime} (${version.name})`,
+      sequence: revisions.get(`${date}-${id}`) || 0
+    };
+  };
+  version.schedule.forEach(day => {
+    if (day.isPadding) return;
+    Object.entries(day.assignments).forEach(([shiftId, ids]) => {
+      ids.forEach(id => {
+        if (employeeId && id !== employeeId) return;
+        const emp = employees.find(e => e.id === id);
+        const event = emp && eventFor(day.date, shiftId, emp.id, emp.name);
+        if (event) events.push(event);
+      });
+    });
+  });
+
+  // The last removal wins, so the cancelled event has the shift times the person was taken off
+  const live = new Set(events.map(ev => ev.uid));
+  const targetDates = new Set(version.schedule.filter(d => !d.isPadding).map(d => d.date));
+  const cancelled = new Map<string, ShiftEvent>();
+  version.auditLog.flatMap(entry => entry.changes).forEach(change => {
+    if (change.action !== AuditAction.REMOVED || !targetDates.has(change.date)) return;
+    if (employeeId && change.employeeId !== employeeId) return;
+    const name = employees.find(e => e.id === change.employeeId)?.name ?? change.employeeName;
+    const event = eventFor(change.date, change.shiftId, change.employeeId, name);
+    if (event && !live.has(event.uid)) cancelled.set(event.uid, { ...event, cancelled: true });
+  });
+  return [...events, ...cancelled.values()];
+};
+
+export const buildICS = (version: ScheduleVersion, employees: Employee[], config: ShiftConfig, employeeId?: string): string => {
+  // DTSTAMP tells later versions and edits apart; SEQUENCE counts the edits to each event
+  const stamp = formatUtcStamp(version.auditLog[version.auditLog.length - 1]?.timestamp ?? version.timestamp);
+  const calendarName = employeeId
+    ? `${employees.find(e => e.id === employeeId)?.name ?? 'Employee'} - Shifts`
+    : 'ShiftMaster Roster';
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ShiftMaster//Schedule Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...collectEvents(version, employees, config, employeeId).flatMap(ev => [
+      'BEGIN:VEVENT',
+      `UID:${ev.uid}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${ev.sequence}`,
+      `DTSTART:${ev.start}`,
+      `DTEND:${ev.end}`,
+      `SUMMARY:${escapeText(ev.summary)}`,
+      `DESCRIPTION:${escapeText(ev.description)}`,
+      ...(ev.cancelled ? ['STATUS:CANCELLED'] : []),
+      'END:VEVENT'
+    ]),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const fileSafe = (name: string): string => name.replace(/[\\/:*?"<>|]/g, '').trim() || 'employee';
+
+const monthSuffix = (version: ScheduleVersion) => `${version.month + 1}_${version.year}`;
+
+export const exportRosterICS = (version: ScheduleVersion, employees: Employee[], config: ShiftConfig) => {
+  downloadFile(buildICS(version, employees, config), ICS_MIME, `roster_${monthSuffix(version)}.ics`);
+};
+
+export const exportEmployeeICS = (version: ScheduleVersion, employees: Employee[], config: ShiftConfig, employeeId: string) => {
+  const emp = employees.find(e => e.id === employeeId);
+  if (!emp) return;
+  downloadFile(buildICS(version, employees, config, employeeId), ICS_MIME, `shifts_${fileSafe(emp.name)}_${monthSuffix(version)}.ics`);
+};
+
+// Every employee's file plus the combined roster in one archive, to hand out in a single download
+export const exportAllICS = (version: ScheduleVersion, employees: Employee[], config: ShiftConfig) => {
+  const used = new Set<string>();
+  const entries = employees.map(emp => {
+    let name = `shifts_${fileSafe(emp.name)}`;
+    for (let i = 2; used.has(name); i++) name = `shifts_${fileSafe(emp.name)}_${i}`;
+    used.add(name);
+    return { name: `${name}_${monthSuffix(version)}.ics`, data: buildICS(version, employees, config, emp.id) };
+  });
+  entries.push({ name: `roster_${monthSuffix(version)}.ics`, data: buildICS(version, employees, config) });
+  downloadFile(createZip(entries), 'application/zip', `calendars_${monthSuffix(version)}.zip`);
+};
+
+// --- Holiday Import ---
+export interface IcsHoliday {
+  date: string; // ISO YYYY-MM-DD
+  name: string;
+}
+
+export interface IcsHolidayImport {
+  holidays: IcsHoliday[]; // Sorted by date; multi-day events give one entry per day
+  recurring: number; // Repeating events, taken for their first date only
+  skipped: number; // Timed events, which are not holidays
+}
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, c: string) => c === 'n' || c === 'N' ? '\n' : c);
+
+// YYYYMMDD -> YYYY-MM-DD, or undefined for anything else
+const readIcsDate = (value: string): string | undefined => {
+  const m = /^(\d{4})(\d{2})(\d{2})$/.exec(value.trim());
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : undefined;
+};
+
+export const parseHolidaysICS = (text: string): IcsHolidayImport => {
+  // Unfold continuation lines (CRLF followed by a space or tab)
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).reduce<string[]>((acc, line) => {
+    if (/^[ \t]/.test(line) && acc.length > 0) acc[acc.length - 1] += line.slice(1);
+    else acc.push(line);
+    return acc;
+  }, []);
+  if (!lines.some(l => l.trim().toUpperCase() === 'BEGIN:VCALENDAR')) throw new Error('The file is not an iCalendar (.ics) file');
+
+  const holidays: IcsHoliday[] = [];
+  let recurring = 0;
+  let skipped = 0;
+  let event: Record<string, string> | null = null;
+  lines.forEach(line => {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VEVENT') { event = {}; return; }
+    if (upper === 'END:VEVENT' && event) {
+      const start = event.DTSTART !== undefined ? readIcsDate(event.DTSTART) : undefined;
+      if (!start) { skipped++; event = null; return; }
+      // DTEND is exclusive; without it the event lasts one day
+      const end = event.DTEND !== undefined ? readIcsDate(event.DTEND) : undefined;
+      const name = unescapeText(event.SUMMARY ?? '').trim() || 'Holiday';
+      for (let d = parseDateKey(start); ; d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)) {
+        holidays.push({ date: formatDateKey(d), name });
+        if (!end || formatDateKey(new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)) >= end) break;
+      }
+      if (event.RRULE !== undefined) recurring++;
+      event = null;
+      return;
+    }
+    if (!event) return;
+    const colon = line.indexOf(':');
+    if (colon < 0) return;
+    const property = line.slice(0, colon).split(';')[0].toUpperCase();
+    if (['DTSTART', 'DTEND', 'SUMMARY', 'RRULE'].includes(property)) event[property] = line.slice(colon + 1);
+  });
+
+  holidays.sort((a, b) => a.date.localeCompare(b.date));
+  return { holidays, recurring, skipped };
+};
@@ -0,0 +1,30 @@
+import { ScheduleVersion, ScheduleLocks, SlotRef } from '../types';
+
+export const EMPTY_LOCKS: ScheduleLocks = { days: [], assignments: [] };
+
+export const isDayLocked = (locks: ScheduleLocks, date: string): boolean => locks.days.includes(date);
+
+export const isAssignmentLocked = (locks: ScheduleLocks, slot: SlotRef, employeeId: string): boolean =>
+  locks.days.includes(slot.date) || locks.assignments.some(l => l.date === slot.date && l.shiftId === slot.shiftId && l.employeeId === employeeId);
+
+export const toggleDayLock = (version: ScheduleVersion, date: string): ScheduleVersion => ({
+  ...version,
+  locks: {
+    ...version.locks,
+    days: isDayLocked(version.locks, date) ? version.locks.days.filter(d => d !== date) : [...version.locks.days, date]
+  }
+});
+
+export const toggleAssignmentLock = (version: ScheduleVersion, slot: SlotRef, employeeId: string): ScheduleVersion => {
+  const matches = (l: SlotRef & { employeeId: string }) => l.date === slot.date && l.shiftId === slot.shiftId && l.employeeId === employeeId;
+  const locked = version.locks.assignments.some(matches);
+  return {
+    ...version,
+    locks: {
+      ...version.locks,
+      assignments: locked ? version.locks.assignments.filter(l => !matches(l)) : [...version.locks.assignments, { ...slot, employeeId }]
+    }
+  };
+};
+
+export const countLocks = (locks: ScheduleLocks): number => locks.days.length + locks.assignments.length;
@@ -0,0 +1,245 @@
+import {
+  Employee,
+  ShiftConfig,
+  DailySchedule,
+  HistoricalContext,
+  ScheduleScore,
+  LockedAssignment,
+  UndesirableCategory
+} from '../types';
+import { findConstraintViolations } from './constraints';
+import { parseDateKey } from './dates';
+import { evaluateShiftRequests } from './preferences';
+import { getMonthTarget } from './continuity';
+import { getAssigned, getDateRequiredCount } from './shifts';
+import { canWorkCategory, deviationFromMean, getHistoryCount, getMarkedCategories } from './fairness';
+import { countUnmetSkills } from './skills';
+import { Random } from './random';
+
+// Weights of the objective. Coverage dominates, then skill coverage and quotas, then wishes and fairness.
+export const SCORE_WEIGHTS = {
+  uncoveredSlot: 100,
+  unmetSkill: 50,
+  targetDeviation: 10,
+  deniedRequest: 3, // Per unit of request weight
+  undesirableSpread: 2,
+  unfairness: 2
+};
+
+const DEFAULT_ITERATIONS = 20000;
+const START_TEMPERATURE = 20;
+const END_TEMPERATURE = 0.05;
+// Longest stretch of annealing between two chances for the browser to paint and handle clicks
+const SLICE_MS = 30;
+
+const yieldToUI = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const cloneSchedule = (schedule: DailySchedule[]): DailySchedule[] =>
+  schedule.map(d => ({ ...d, assignments: Object.fromEntries(Object.entries(d.assignments).map(([id, ids]) => [id, [...ids]])) }));
+
+// --- Scoring ---
+// uncoveredSlots: missing workers on target-month days
+// unmetSkills: missing qualified workers on target-month days
+// targetDeviation: sum of |month shifts - target| for employees with a quota (after carry-over)
+// unfairness: sum of |total - mean| (history included) for employees without a quota
+// deniedRequests: summed weight of soft requests that were not honoured
+// undesirableSpread: per marked category, sum of |count - mean| (history included) for everyone who can work it
+export const scoreSchedule = (
+  schedule: DailySchedule[],
+  employees: Employee[],
+  config: ShiftConfig,
+  history?: HistoricalContext
+): ScheduleScore => {
+  let uncoveredSlots = 0;
+  const monthTotals = new Map<string, number>();
+  employees.forEach(e => monthTotals.set(e.id, 0));
+  const undesirableCounts = new Map<UndesirableCategory, Map<string, number>>(config.undesirable.map(c => [c, new Map()]));
+
+  schedule.forEach(day => {
+    if (day.isPadding) return;
+    config.shifts.forEach(def => {
+      uncoveredSlots += Math.max(0, getDateRequiredCount(config, day.date, def.id) - getAssigned(day, def.id).length);
+      getMarkedCategories(config, day.date, def).forEach(c => {
+        const counts = undesirableCounts.get(c)!;
+        getAssigned(day, def.id).forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+      });
+    });
+    Object.values(day.assignments).flat().forEach(id => {
+      if (monthTotals.has(id)) monthTotals.set(id, monthTotals.get(id)! + 1);
+    });
+  });
+
+  let targetDeviation = 0;
+  const untargeted: number[] = [];
+  employees.forEach(e => {
+    const total = monthTotals.get(e.id)!;
+    const target = getMonthTarget(e, history?.quotaCarry);
+    if (target !== undefined) {
+      targetDeviation += Math.abs(total - target);
+    } else {
+      untargeted.push(total + (history?.accumulatedStats[e.id]?.total || 0));
+    }
+  });
+
+  let unfairness = 0;
+  if (untargeted.length > 1) {
+    const mean = untargeted.reduce((a, b) => a + b, 0) / untargeted.length;
+    unfairness = untargeted.reduce((sum, t) => sum + Math.abs(t - mean), 0);
+  }
+  unfairness = Math.round(unfairness * 100) / 100;
+
+  let undesirableSpread = 0;
+  undesirableCounts.forEach((counts, category) => {
+    undesirableSpread += deviationFromMean(employees
+      .filter(e => canWorkCategory(e, config, category))
+      .map(e => (counts.get(e.id) || 0) + getHistoryCount(history, e.id, category)));
+  });
+  undesirableSpread = Math.round(undesirableSpread * 100) / 100;
+
+  const unmetSkills = countUnmetSkills(schedule, employees, config);
+  const deniedRequests = employees.reduce((sum, e) => sum + evaluateShiftRequests(e, schedule).deniedWeight, 0);
+
+  const total = uncoveredSlots * SCORE_WEIGHTS.uncoveredSlot
+    + unmetSkills * SCORE_WEIGHTS.unmetSkill
+    + targetDeviation * SCORE_WEIGHTS.targetDeviation
+    + deniedRequests * SCORE_WEIGHTS.deniedRequest
+    + undesirableSpread * SCORE_WEIGHTS.undesirableSpread
+    + unfairness * SCORE_WEIGHTS.unfairness;
+
+  return { uncoveredSlots, unmetSkills, targetDeviation, unfairness, deniedRequests, undesirableSpread, total: Math.round(total * 100) / 100 };
+};
+
+// --- Hard Rules ---
+// Checks every configured hard rule for one employee across the whole timeline.
+// Days in `fixedDays` (manual history, locked days) and locked placements are taken as given and never reported.
+const isEmployeeFeasible = (
+  emp: Employee,
+  schedule: DailySchedule[],
+  fixedDays: boolean[],
+  isLocked: (dayIdx: number, shiftId: string, empId: string) => boolean,
+  config: ShiftConfig,
+  history?: HistoricalContext
+): boolean => {
+  const ctx = { schedule, config, history };
+  for (let i = 0; i < schedule.length; i++) {
+    if (fixedDays[i]) continue;
+    const day = schedule[i];
+    const shifts = Object.entries(day.assignments).flatMap(([shiftId, ids]) => ids.filter(id => id === emp.id).map(() => shiftId));
+    if (shifts.length > 1) return false;
+    if (shifts.length === 1 && isLocked(i, shifts[0], emp.id)) continue;
+    if (shifts.length === 1 && findConstraintViolations(emp, i, parseDateKey(day.date), shifts[0], ctx).length > 0) return false;
+  }
+  return true;
+};
+
+// --- Local Search ---
+// Simulated annealing over fill / replace / swap moves, starting from a valid schedule.
+// Moves never remove a worker without putting someone else in, so coverage never drops.
+// The loop runs in time slices; between them `isCancelled` is asked and ends the search with an
+// error. Slicing draws no random numbers, so a seed gives the same result however it is sliced.
+export const optimizeSchedule = async (
+  initial: DailySchedule[],
+  employees: Employee[],
+  config: ShiftConfig,
+  history?: HistoricalContext,
+  fixedDates: Set<string> = new Set(),
+  lockedAssignments: LockedAssignment[] = [],
+  random: Random = Math.random,
+  iterations: number = DEFAULT_ITERATIONS,
+  isCancelled?: () => boolean
+): Promise<DailySchedule[]> => {
+  const schedule = cloneSchedule(initial);
+  schedule.forEach(d => config.shifts.forEach(def => { if (!d.assignments[def.id]) d.assignments[def.id] = []; }));
+  const fixedDays = schedule.map(d => fixedDates.has(d.date));
+  const editableDays = schedule.map((_, i) => i).filter(i => !fixedDays[i]);
+  if (employees.length === 0 || editableDays.length === 0 || config.shifts.length === 0) return schedule;
+
+  const empById = new Map(employees.map(e => [e.id, e]));
+  const lockedKeys = new Set(lockedAssignments.map(l => `${l.date}|${l.shiftId}|${l.employeeId}`));
+  const isLocked = (dayIdx: number, shiftId: string, empId: string) => lockedKeys.has(`${schedule[dayIdx].date}|${shiftId}|${empId}`);
+  const score = () => scoreSchedule(schedule, employees, config, history).total;
+  const feasible = (ids: string[]) => ids.every(id => {
+    const emp = empById.get(id);
+    return !emp || isEmployeeFeasible(emp, schedule, fixedDays, isLocked, config, history);
+  });
+  const randomItem = <T,>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const randomShift = (): string => randomItem(config.shifts).id;
+
+  let current = score();
+  let best = current;
+  let bestSchedule = cloneSchedule(schedule);
+  let sliceStart = Date.now();
+
+  for (let iter = 0; iter < iterations && best > 0; iter++) {
+    if (Date.now() - sliceStart > SLICE_MS) {
+      await yieldToUI();
+      if (isCancelled?.()) throw new Error('Optimization was cancelled');
+      sliceStart = Date.now();
+    }
+    const temperature = START_TEMPERATURE * Math.pow(END_TEMPERATURE / START_TEMPERATURE, iter / iterations);
+    const moveRoll = random();
+    let undo: (() => void) | null = null;
+    let touched: string[] = [];
+
+    if (moveRoll < 0.4) {
+      // Fill: add someone to an understaffed slot
+      const dayIdx = randomItem(editableDays);
+      const shift = randomShift();
+      const day = schedule[dayIdx];
+      const slot = day.assignments[shift];
+      if (day.isPadding || slot.length >= getDateRequiredCount(config, day.date, shift)) continue;
+      const emp = randomItem(employees);
+      slot.push(emp.id);
+      undo = () => { slot.pop(); };
+      touched = [emp.id];
+    } else if (moveRoll < 0.75) {
+      // Replace: swap an assigned worker for someone else on the same slot
+      const dayIdx = randomItem(editableDays);
+      const shift = randomShift();
+      const slot = schedule[dayIdx].assignments[shift];
+      if (slot.length === 0) continue;
+      const pos = Math.floor(random() * slot.length);
+      const previous = slot[pos];
+      if (isLocked(dayIdx, shift, previous)) continue;
+      const emp = randomItem(employees);
+      if (emp.id === previous) continue;
+      slot[pos] = emp.id;
+      undo = () => { slot[pos] = previous; };
+      touched = [previous, emp.id];
+    } else {
+      // Swap: exchange two workers between slots (possibly on different days)
+      const dayA = randomItem(editableDays);
+      const dayB = randomItem(editableDays);
+      const shiftA = randomShift();
+      const shiftB = randomShift();
+      const slotA = schedule[dayA].assignments[shiftA];
+      const slotB = schedule[dayB].assignments[shiftB];
+      if (slotA.length === 0 || slotB.length === 0) continue;
+      const posA = Math.floor(random() * slotA.length);
+      const posB = Math.floor(random() * slotB.length);
+      const idA = slotA[posA];
+      const idB = slotB[posB];
+      if (idA === idB || isLocked(dayA, shiftA, idA) || isLocked(dayB, shiftB, idB)) continue;
+      slotA[posA] = idB;
+      slotB[posB] = idA;
+      undo = () => { slotA[posA] = idA; slotB[posB] = idB; };
+      touched = [idA, idB];
+    }
+
+    if (!feasible(touched)) { undo(); continue; }
+
+    const candidate = score();
+    const delta = candidate - current;
+    if (delta <= 0 || random() < Math.exp(-delta / temperature)) {
+      current = candidate;
+      if (current < best) {
+        best = current;
+        bestSchedule = cloneSchedule(schedule);
+      }
+    } else {
+      undo();
+    }
+  }
+
+  return bestSchedule;
+};
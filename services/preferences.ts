@@ -0,0 +1,50 @@
+import { Employee, DailySchedule, ShiftRequest, RequestKind } from '../types';
+import { parseDateKey } from './dates';
+import { findEmployeeShift } from './shifts';
+
+export interface RequestOutcome {
+  granted: number;
+  denied: number;
+  deniedWeight: number; // Sum of the weights of denied requests
+}
+
+// Whether a request is about this date (and shift). Dated requests match one date,
+// recurring ones every matching weekday; a request without a shift covers the whole day.
+export const requestMatches = (req: ShiftRequest, dateKey: string, dayOfWeek: number, shiftId?: string): boolean => {
+  if (req.date ? req.date !== dateKey : req.dayOfWeek !== dayOfWeek) return false;
+  return !shiftId || !req.shiftId || req.shiftId === shiftId;
+};
+
+// Positive when the employee wants this shift, negative when they'd rather not
+export const requestAffinity = (emp: Employee, dateKey: string, dayOfWeek: number, shiftId: string): number =>
+  emp.shiftRequests.reduce((sum, req) => {
+    if (!requestMatches(req, dateKey, dayOfWeek, shiftId)) return sum;
+    return sum + (req.kind === RequestKind.PREFER ? req.weight : -req.weight);
+  }, 0);
+
+// Each occurrence of a request on a target-month day counts once: a "prefer" is granted
+// when they work a matching shift that day, an "avoid" when they don't.
+export const evaluateShiftRequests = (emp: Employee, schedule: DailySchedule[]): RequestOutcome => {
+  const outcome: RequestOutcome = { granted: 0, denied: 0, deniedWeight: 0 };
+  if (emp.shiftRequests.length === 0) return outcome;
+
+  schedule.forEach(day => {
+    if (day.isPadding) return;
+    const dayOfWeek = parseDateKey(day.date).getDay();
+    const worked = findEmployeeShift(day, emp.id);
+
+    emp.shiftRequests.forEach(req => {
+      if (!requestMatches(req, day.date, dayOfWeek)) return;
+      const workedMatching = worked !== null && (!req.shiftId || req.shiftId === worked);
+      const granted = req.kind === RequestKind.PREFER ? workedMatching : !workedMatching;
+      if (granted) {
+        outcome.granted++;
+      } else {
+        outcome.denied++;
+        outcome.deniedWeight += req.weight;
+      }
+    });
+  });
+
+  return outcome;
+};
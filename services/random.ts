@@ -0,0 +1,23 @@
+// Seeded pseudo-random numbers, so that a seed and the same inputs always give the same roster.
+
+// Returns numbers in [0, 1), like Math.random
+export type Random = () => number;
+
+// Seeds are unsigned 32-bit integers, short enough to read out or type back in
+export const MAX_SEED = 0xffffffff;
+
+export const randomSeed = (): number => crypto.getRandomValues(new Uint32Array(1))[0];
+
+// Mulberry32: tiny, fast and well distributed enough for tie-breaks and local search
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const isValidSeed = (seed: number): boolean => Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
@@ -0,0 +1,133 @@
+import { Employee, ShiftConfig, ScheduleVersion, DailySchedule, RosterEdit, SlotRef, AuditChange, AuditAction } from '../types';
+import { computeEmployeeStats } from './scheduler';
+import { getAssigned } from './shifts';
+
+const sameSlot = (a: SlotRef, b: SlotRef) => a.date === b.date && a.shiftId === b.shiftId;
+
+// Returns the same array when the slot is left unchanged, so no-op edits can be detected
+const updateSlot = (schedule: DailySchedule[], slot: SlotRef, update: (ids: string[]) => string[]): DailySchedule[] => {
+  let changed = false;
+  const next = schedule.map(d => {
+    if (d.date !== slot.date) return d;
+    const ids = getAssigned(d, slot.shiftId);
+    const updated = update(ids);
+    if (updated === ids) return d;
+    changed = true;
+    return { ...d, assignments: { ...d.assignments, [slot.shiftId]: updated } };
+  });
+  return changed ? next : schedule;
+};
+
+const withoutFirst = (ids: string[], id: string): string[] => {
+  const idx = ids.indexOf(id);
+  return idx < 0 ? ids : [...ids.slice(0, idx), ...ids.slice(idx + 1)];
+};
+
+const replaceFirst = (ids: string[], id: string, replacement: string): string[] => {
+  const idx = ids.indexOf(id);
+  return idx < 0 ? ids : ids.map((x, i) => i === idx ? replacement : x);
+};
+
+// Who is in a slot, or null when the version has no such day
+const slotIds = (schedule: DailySchedule[], slot: SlotRef): string[] | null => {
+  const day = schedule.find(d => d.date === slot.date);
+  return day ? getAssigned(day, slot.shiftId) : null;
+};
+
+// An edit applies only when everyone it takes out is in the slot and nobody it puts in already is,
+// so each side of a move or swap happens or neither does, and the audit log matches the roster
+const canApply = (schedule: DailySchedule[], edit: RosterEdit): boolean => {
+  const has = (slot: SlotRef, id: string) => !!slotIds(schedule, slot)?.includes(id);
+  const lacks = (slot: SlotRef, id: string) => slotIds(schedule, slot) !== null && !has(slot, id);
+  switch (edit.type) {
+    case 'assign':
+      return lacks(edit.slot, edit.employeeId);
+    case 'remove':
+      return has(edit.slot, edit.employeeId);
+    case 'move':
+      return !sameSlot(edit.from, edit.to) && has(edit.from, edit.employeeId) && lacks(edit.to, edit.employeeId);
+    case 'swap':
+      return !sameSlot(edit.a, edit.b) && edit.aEmployeeId !== edit.bEmployeeId
+        && has(edit.a, edit.aEmployeeId) && has(edit.b, edit.bEmployeeId)
+        && lacks(edit.a, edit.bEmployeeId) && lacks(edit.b, edit.aEmployeeId);
+  }
+};
+
+const editSchedule = (schedule: DailySchedule[], edit: RosterEdit): DailySchedule[] => {
+  switch (edit.type) {
+    case 'assign':
+      return updateSlot(schedule, edit.slot, ids => [...ids, edit.employeeId]);
+    case 'remove':
+      return updateSlot(schedule, edit.slot, ids => withoutFirst(ids, edit.employeeId));
+    case 'move':
+      return updateSlot(
+        updateSlot(schedule, edit.from, ids => withoutFirst(ids, edit.employeeId)),
+        edit.to,
+        ids => [...ids, edit.employeeId]
+      );
+    case 'swap':
+      return updateSlot(
+        updateSlot(schedule, edit.a, ids => replaceFirst(ids, edit.aEmployeeId, edit.bEmployeeId)),
+        edit.b,
+        ids => replaceFirst(ids, edit.bEmployeeId, edit.aEmployeeId)
+      );
+  }
+};
+
+// What an edit adds and removes, slot by slot
+const describeChanges = (edit: RosterEdit, employees: Employee[]): AuditChange[] => {
+  const change = (slot: SlotRef, employeeId: string, action: AuditAction): AuditChange => ({
+    ...slot,
+    employeeId,
+    employeeName: employees.find(e => e.id === employeeId)?.name ?? 'Unknown',
+    action
+  });
+  switch (edit.type) {
+    case 'assign':
+      return [change(edit.slot, edit.employeeId, AuditAction.ADDED)];
+    case 'remove':
+      return [change(edit.slot, edit.employeeId, AuditAction.REMOVED)];
+    case 'move':
+      return [change(edit.from, edit.employeeId, AuditAction.REMOVED), change(edit.to, edit.employeeId, AuditAction.ADDED)];
+    case 'swap':
+      return [
+        change(edit.a, edit.aEmployeeId, AuditAction.REMOVED), change(edit.a, edit.bEmployeeId, AuditAction.ADDED),
+        change(edit.b, edit.bEmployeeId, AuditAction.REMOVED), change(edit.b, edit.aEmployeeId, AuditAction.ADDED)
+      ];
+  }
+};
+
+// The edit that takes a roster back to how it was before `edit`
+export const invertRosterEdit = (edit: RosterEdit): RosterEdit => {
+  switch (edit.type) {
+    case 'assign':
+      return { type: 'remove', slot: edit.slot, employeeId: edit.employeeId };
+    case 'remove':
+      return { type: 'assign', slot: edit.slot, employeeId: edit.employeeId };
+    case 'move':
+      return { type: 'move', from: edit.to, to: edit.from, employeeId: edit.employeeId };
+    case 'swap':
+      return { type: 'swap', a: edit.a, aEmployeeId: edit.bEmployeeId, b: edit.b, bEmployeeId: edit.aEmployeeId };
+  }
+};
+
+// The one place roster edits are applied. Stats are always recomputed from the edited
+// schedule so they can never drift from what the calendar shows, and every effective
+// edit is appended to the version's audit log. Edits that do not apply return the version as is.
+export const applyRosterEdit = (
+  version: ScheduleVersion,
+  edit: RosterEdit,
+  employees: Employee[],
+  config: ShiftConfig,
+  reason?: string
+): ScheduleVersion => {
+  if (!canApply(version.schedule, edit)) return version;
+  const schedule = editSchedule(version.schedule, edit);
+  if (schedule === version.schedule) return version;
+  return {
+    ...version,
+    schedule,
+    stats: computeEmployeeStats(schedule, employees, config),
+    auditLog: [...version.auditLog, { id: crypto.randomUUID(), timestamp: Date.now(), changes: describeChanges(edit, employees), reason: reason || undefined }]
+  };
+};
@@ -0,0 +1,344 @@
+import {
+  Employee,
+  ShiftConfig,
+  ShiftDefinition,
+  ScheduleVersion,
+  DailySchedule,
+  ShiftAssignments,
+  ParsedHistoryCSV,
+  HistoryNameMapping,
+  CsvTable,
+  CsvColumnRole
+} from '../types';
+import { CSV_MIME, detectDelimiter, formatCSV, isBlankRow, parseCSV } from './csv';
+import { formatDateKey, parseDateKey } from './dates';
+import { downloadFile } from './download';
+import { AUDIT_HEADERS, auditRows, computeEmployeeStats } from './scheduler';
+import { getAssigned, getVersionShifts } from './shifts';
+
+// Roster CSV files: the exported format, reading it (or any similar sheet) back through a
+// column mapping, and turning it into either history or a complete ScheduleVersion.
+
+const AUDIT_SECTION = 'Audit Log';
+const VERSION_SECTION = 'Version';
+const SECTION_TITLES = [AUDIT_SECTION, VERSION_SECTION];
+
+// Non-tabular parts of a version, stored as JSON in the Version section
+interface VersionMetadata {
+  stats: ScheduleVersion['stats'];
+  solverReport?: ScheduleVersion['solverReport'];
+  auditLog: ScheduleVersion['auditLog'];
+  locks: ScheduleVersion['locks'];
+  continuity?: ScheduleVersion['continuity'];
+  seed?: number;
+  inputs?: ScheduleVersion['inputs'];
+}
+
+// Shift IDs used by a version's assignments, in first-seen order
+const versionShiftIds = (schedule: DailySchedule[]): string[] =>
+  Array.from(new Set(schedule.flatMap(day => Object.keys(day.assignments))));
+
+// --- Export ---
+// Main table: one row per day with a column per worker position. The Audit Log section is for
+// people reading the file; the Version section carries what import needs to rebuild the version,
+// including the employee IDs behind every filled slot, so people sharing a name stay apart.
+export const buildScheduleCSV = (version: ScheduleVersion, employees: Employee[], config: ShiftConfig): string => {
+  const shifts = getVersionShifts(version.schedule, config);
+  const maxPerShift = shifts.map(def => Math.max(0, ...version.schedule.map(s => getAssigned(s, def.id).length)));
+  const nameOf = (id: string) => employees.find(e => e.id === id)?.name || 'Unknown';
+
+  const headers = ['Date', 'Is Padding'];
+  shifts.forEach((def, si) => {
+    for (let i = 0; i < maxPerShift[si]; i++) headers.push(`${def.name} Worker ${i + 1}`);
+  });
+  const rows: string[][] = [headers, ...version.schedule.map(day => {
+    const line = [day.date, day.isPadding ? 'Yes' : 'No'];
+    shifts.forEach((def, si) => {
+      const ids = getAssigned(day, def.id);
+      for (let i = 0; i < maxPerShift[si]; i++) line.push(ids[i] ? nameOf(ids[i]) : '');
+    });
+    return line;
+  })];
+
+  if (version.auditLog.length > 0) {
+    rows.push([], [AUDIT_SECTION], AUDIT_HEADERS, ...auditRows(version, shifts));
+  }
+
+  const employeeIds = Array.from(new Set([...Object.keys(version.stats), ...version.schedule.flatMap(d => Object.values(d.assignments).flat())]));
+  const metadata: VersionMetadata = { stats: version.stats, solverReport: version.solverReport, auditLog: version.auditLog, locks: version.locks, continuity: version.continuity, seed: version.seed, inputs: version.inputs };
+  rows.push(
+    [],
+    [VERSION_SECTION],
+    ['Id', version.id],
+    ['Name', version.name],
+    ['Generated', new Date(version.timestamp).toISOString()],
+    ['Month', String(version.month + 1)],
+    ['Year', String(version.year)],
+    ...versionShiftIds(version.schedule).map(id => ['Shift', shifts.find(s => s.id === id)?.name ?? id, id]),
+    ...employeeIds.map(id => ['Employee', nameOf(id), id]),
+    ...version.schedule.flatMap(day => Object.entries(day.assignments).filter(([, ids]) => ids.length > 0).map(([shiftId, ids]) => ['Assigned', day.date, shiftId, ...ids])),
+    ['Metadata', JSON.stringify(metadata)]
+  );
+
+  return "\uFEFF" + formatCSV(rows);
+};
+
+export const exportToCSV = (version: ScheduleVersion, employees: Employee[], config: ShiftConfig) => {
+  downloadFile(buildScheduleCSV(version, employees, config), CSV_MIME, `schedule_${version.month + 1}_${version.year}.csv`);
+};
+
+// --- Reading ---
+// The first non-blank row is the header; a blank row followed by a known title starts a section
+export const readCsvTable = (text: string, sourceName: string): CsvTable => {
+  const delimiter = detectDelimiter(text);
+  const all = parseCSV(text, delimiter);
+  const start = all.findIndex(row => !isBlankRow(row));
+  if (start < 0) throw new Error('The file is empty');
+
+  const rows: string[][] = [];
+  const sections: Record<string, string[][]> = {};
+  let target = rows;
+  for (let i = start + 1; i < all.length; i++) {
+    const row = all[i];
+    if (isBlankRow(row)) continue;
+    const title = row[0].trim();
+    if (isBlankRow(all[i - 1]) && SECTION_TITLES.includes(title) && isBlankRow(row.slice(1))) {
+      target = sections[title] = [];
+      continue;
+    }
+    target.push(row);
+  }
+  if (rows.length === 0) throw new Error('No data rows found below the header');
+
+  return { sourceName, delimiter, headers: all[start].map(h => h.trim()), rows, sections };
+};
+
+export const readCsvFile = async (file: File): Promise<CsvTable> => readCsvTable(await file.text(), file.name);
+
+const versionField = (table: CsvTable, key: string): string | undefined =>
+  table.sections[VERSION_SECTION]?.find(row => row[0].trim() === key)?.[1]?.trim();
+
+// --- Column Mapping ---
+// Guesses each column's role from its header: "Date", "Is Padding", and worker columns named
+// "<Shift> Worker N", "<Shift> Shift Worker N" or just the shift name
+export const detectColumnRoles = (table: CsvTable, shifts: ShiftDefinition[]): CsvColumnRole[] => {
+  // Shift names recorded by our own export, so renamed or deleted shifts keep their IDs
+  const exported = new Map((table.sections[VERSION_SECTION] || []).filter(r => r[0] === 'Shift' && r[2]).map(r => [r[1].trim().toLowerCase(), r[2].trim()]));
+  return table.headers.map((header): CsvColumnRole => {
+    const lower = header.toLowerCase();
+    if (lower === 'date') return { kind: 'date' };
+    if (lower === 'is padding' || lower === 'padding') return { kind: 'padding' };
+    const base = lower.replace(/\s+(shift\s+)?worker(\s+\d+)?$/, '').trim();
+    const shiftId = exported.get(base) ?? shifts.find(s => s.name.toLowerCase() === base || s.id.toLowerCase() === base)?.id;
+    return shiftId ? { kind: 'shift', shiftId } : { kind: 'ignore' };
+  });
+};
+
+// Names recorded by our own export resolve to the employee IDs they were exported from,
+// as long as those employees still exist (this also covers people renamed since). A name
+// exported for several employees is left out; see exportedSlotIds.
+export const exportedNameMapping = (table: CsvTable, employees: Employee[]): HistoryNameMapping => {
+  const rows = (table.sections[VERSION_SECTION] || []).filter(r => r[0] === 'Employee' && r[2]?.trim());
+  const key = (r: string[]) => r[1].trim().toLowerCase();
+  return Object.fromEntries(rows
+    .filter(r => employees.some(e => e.id === r[2].trim()) && rows.filter(other => key(other) === key(r)).length === 1)
+    .map(r => [key(r), r[2].trim()]));
+};
+
+// Matches the names in one slot to the employee IDs our own export wrote for it. A name only
+// matches an ID exported under that name, so cells edited since fall back to the name mapping.
+const exportedSlotIds = (table: CsvTable, employees: Employee[]) => {
+  const section = table.sections[VERSION_SECTION] || [];
+  const exportedName = new Map(section.filter(r => r[0] === 'Employee' && r[2]).map(r => [r[2].trim(), r[1].trim().toLowerCase()]));
+  const slots = new Map(section.filter(r => r[0] === 'Assigned' && r[2]).map(r => [`${r[1].trim()}|${r[2].trim()}`, r.slice(3).map(id => id.trim())]));
+  return (date: string | null, shiftId: string, names: string[]): (string | null)[] => {
+    const free = (date && slots.get(`${date}|${shiftId}`) || []).filter(id => employees.some(e => e.id === id));
+    return names.map(name => {
+      const at = free.findIndex(id => exportedName.get(id) === name.toLowerCase());
+      return at < 0 ? null : free.splice(at, 1)[0];
+    });
+  };
+};
+
+interface RosterRow {
+  line: number; // 1-based row number in the table, for error messages
+  rawDate: string | null;
+  date: string | null; // Valid YYYY-MM-DD, or null
+  isPadding: boolean | null; // Null when no padding column is mapped
+  names: Record<string, string[]>; // Shift ID -> names
+}
+
+const readDate = (value: string): string | null =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && formatDateKey(parseDateKey(value)) === value ? value : null;
+
+const readFlag = (value: string): boolean => /^(yes|y|true|1)$/i.test(value);
+
+const readRosterRows = (table: CsvTable, roles: CsvColumnRole[]): RosterRow[] =>
+  table.rows.map((row, i) => {
+    const cell = (col: number) => (row[col] ?? '').trim();
+    const dateCol = roles.findIndex(r => r.kind === 'date');
+    const paddingCol = roles.findIndex(r => r.kind === 'padding');
+    const names: Record<string, string[]> = {};
+    roles.forEach((role, col) => {
+      if (role.kind !== 'shift') return;
+      names[role.shiftId] = names[role.shiftId] || [];
+      if (cell(col)) names[role.shiftId].push(cell(col));
+    });
+    return {
+      line: i + 2,
+      rawDate: dateCol >= 0 ? cell(dateCol) : null,
+      date: dateCol >= 0 ? readDate(cell(dateCol)) : null,
+      isPadding: paddingCol >= 0 ? readFlag(cell(paddingCol)) : null,
+      names
+    };
+  });
+
+// --- As History ---
+// Dated rows are put in calendar order. An exported version ends with padding days that belong
+// to the following month; those have not happened yet, so they are dropped.
+export const tableToHistory = (table: CsvTable, roles: CsvColumnRole[]): ParsedHistoryCSV => {
+  let rows = readRosterRows(table, roles);
+  if (rows.every(r => r.date)) rows = [...rows].sort((a, b) => a.date!.localeCompare(b.date!));
+  let lastInMonth = -1;
+  rows.forEach((r, i) => { if (r.isPadding === false) lastInMonth = i; });
+  if (lastInMonth >= 0) rows = rows.slice(0, lastInMonth + 1);
+  return { sourceName: table.sourceName, rows: rows.map(r => r.names), ...(rows.every(r => r.date) && { dates: rows.map(r => r.date!) }) };
+};
+
+// --- As Version ---
+// Names the exported IDs do not account for and that match no employee, or several
+export const findUnmatchedVersionNames = (
+  table: CsvTable,
+  roles: CsvColumnRole[],
+  employees: Employee[],
+  nameMapping: HistoryNameMapping = {}
+): string[] => {
+  const matchExported = exportedSlotIds(table, employees);
+  const unmatched = new Map<string, string>();
+  readRosterRows(table, roles).forEach(r => Object.entries(r.names).forEach(([shiftId, names]) => {
+    const ids = matchExported(r.date, shiftId, names);
+    names.forEach((name, i) => {
+      const key = name.toLowerCase();
+      if (ids[i] || key in nameMapping || unmatched.has(key)) return;
+      if (employees.filter(e => e.name.toLowerCase() === key).length !== 1) unmatched.set(key, name);
+    });
+  }));
+  return Array.from(unmatched.values());
+};
+
+export interface VersionImportResult {
+  version: ScheduleVersion | null;
+  errors: string[];
+}
+
+const MAX_REPORTED_ERRORS = 5;
+
+// Rebuilds a version from the table. Files exported by this app come back as the identical
+// version (same ID, metadata, audit log and pins) as long as the workforce and shifts are unchanged.
+export const tableToVersion = (
+  table: CsvTable,
+  roles: CsvColumnRole[],
+  employees: Employee[],
+  config: ShiftConfig,
+  nameMapping: HistoryNameMapping = {}
+): VersionImportResult => {
+  const errors: string[] = [];
+  if (!roles.some(r => r.kind === 'date')) errors.push('No column is mapped to Date');
+  if (!roles.some(r => r.kind === 'shift')) errors.push('No column is mapped to a shift');
+  if (errors.length > 0) return { version: null, errors };
+
+  const rows = readRosterRows(table, roles);
+  rows.filter(r => !r.date).forEach(r => errors.push(`Row ${r.line}: "${r.rawDate}" is not a date (expected YYYY-MM-DD)`));
+  const seen = new Set<string>();
+  rows.forEach(r => {
+    if (r.date && seen.has(r.date)) errors.push(`Row ${r.line}: ${r.date} appears more than once`);
+    if (r.date) seen.add(r.date);
+  });
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return { version: null, errors: [...errors.slice(0, MAX_REPORTED_ERRORS), ...(extra > 0 ? [`...and ${extra} more`] : [])] };
+  }
+  rows.sort((a, b) => a.date!.localeCompare(b.date!));
+
+  // Target month: as exported, otherwise the month most of the (non-padding) days fall in
+  let month = Number(versionField(table, 'Month')) - 1;
+  let year = Number(versionField(table, 'Year'));
+  if (!(month >= 0 && month < 12 && year > 0)) {
+    const counts = new Map<string, number>();
+    rows.filter(r => r.isPadding !== true).forEach(r => {
+      const key = r.date!.slice(0, 7);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    if (counts.size === 0) return { version: null, errors: ['No non-padding days to infer the month from'] };
+    const [busiest] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+    year = Number(busiest.slice(0, 4));
+    month = Number(busiest.slice(5, 7)) - 1;
+  }
+
+  // Exported IDs first, then the mapping; a name shared by several employees needs the mapping
+  const matchExported = exportedSlotIds(table, employees);
+  const ambiguous = new Set<string>();
+  const resolve = (name: string): string | null => {
+    const key = name.toLowerCase();
+    if (key in nameMapping) return nameMapping[key];
+    const matches = employees.filter(e => e.name.toLowerCase() === key);
+    if (matches.length > 1) ambiguous.add(name);
+    return matches.length === 1 ? matches[0].id : null;
+  };
+  const exportedShiftIds = (table.sections[VERSION_SECTION] || []).filter(r => r[0] === 'Shift' && r[2]).map(r => r[2].trim());
+  const shiftIds = exportedShiftIds.length > 0 ? exportedShiftIds : config.shifts.map(s => s.id);
+
+  const schedule: DailySchedule[] = rows.map(r => {
+    const date = parseDateKey(r.date!);
+    const inMonth = date.getMonth() === month && date.getFullYear() === year;
+    const assignments: ShiftAssignments = Object.fromEntries(shiftIds.map(id => [id, []]));
+    Object.entries(r.names).forEach(([shiftId, names]) => {
+      const exported = matchExported(r.date, shiftId, names);
+      const ids = names.map((name, i) => exported[i] ?? resolve(name));
+      assignments[shiftId] = [...(assignments[shiftId] || []), ...ids.filter((id): id is string => !!id)];
+    });
+    return { date: r.date!, assignments, isPadding: r.isPadding ?? !inMonth };
+  });
+  if (ambiguous.size > 0) {
+    return { version: null, errors: Array.from(ambiguous).map(name => `"${name}" matches more than one employee; choose who it is in the name mapping`) };
+  }
+
+  let metadata: VersionMetadata | null = null;
+  const rawMetadata = versionField(table, 'Metadata');
+  if (rawMetadata) {
+    try {
+      metadata = JSON.parse(rawMetadata);
+    } catch (e) {
+      console.error(e);
+      return { version: null, errors: [`The Version section's metadata is not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+    }
+    if (typeof metadata !== 'object' || metadata === null || typeof metadata.stats !== 'object' || metadata.stats === null) {
+      return { version: null, errors: ["The Version section's metadata has no stats"] };
+    }
+  }
+
+  // Stats are recomputed from the table (it may have been edited); employees no longer in the
+  // workforce keep the figures they were exported with
+  const statsFor = metadata ? employees.filter(e => e.id in metadata!.stats) : employees;
+  const stats = { ...(metadata?.stats || {}), ...computeEmployeeStats(schedule, statsFor, config) };
+  const generated = Date.parse(versionField(table, 'Generated') || '');
+
+  return {
+    version: {
+      id: versionField(table, 'Id') || crypto.randomUUID(),
+      timestamp: Number.isNaN(generated) ? Date.now() : generated,
+      name: versionField(table, 'Name') || `Imported ${table.sourceName}`,
+      month,
+      year,
+      schedule,
+      stats,
+      ...(metadata?.solverReport && { solverReport: metadata.solverReport }),
+      auditLog: metadata?.auditLog || [],
+      locks: metadata?.locks || { days: [], assignments: [] },
+      ...(metadata?.continuity && { continuity: metadata.continuity }),
+      ...(metadata?.seed !== undefined && { seed: metadata.seed }),
+      ...(metadata?.inputs && { inputs: metadata.inputs })
+    },
+    errors: []
+  };
+};
@@ -8,16 +8,42 @@ import {
   EmployeeStats,
   ScheduleVersion,
   HistoricalContext,
-  ManualHistoryInput
+  ManualHistoryInput,
+  ParsedHistoryCSV,
+  HistoryNameMapping,
+  GenerateOptions,
+  SolverEngine,
+  SolverReport,
+  ShiftDefinition,
+  ShiftAssignments,
+  PacingCategory,
+  RankFactors,
+  SlotCandidate,
+  SlotExplanation,
+  AccumulatedStats,
+  UndesirableCategory
 } from '../types';
-
-// Helper to format date as YYYY-MM-DD
-export const formatDateKey = (date: Date): string => {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, '0');
-  const d = String(date.getDate()).padStart(2, '0');
-  return `${y}-${m}-${d}`;
-};
+import { optimizeSchedule, scoreSchedule } from './optimizer';
+import { ConstraintContext, findConstraintViolations } from './constraints';
+import { formatDateKey, parseDateKey } from './dates';
+import { requestAffinity, evaluateShiftRequests } from './preferences';
+import { getDateSkillMinimums, hasSkill } from './skills';
+import { getMonthTarget } from './continuity';
+import { ACCUMULATED_STATS, getMarkedCategories, getSlotCategories } from './fairness';
+import { Random, createRandom, randomSeed } from './random';
+import { downloadFile } from './download';
+import { buildXlsx, toExcelSerial, XlsxCell, XlsxSheet } from './xlsx';
+import {
+  getShiftDefinition,
+  getDateRequiredCount,
+  getAssigned,
+  findEmployeeShift,
+  emptyAssignments,
+  getVersionShifts,
+  getShiftWindow
+} from './shifts';
+
+export { formatDateKey, parseDateKey };
 
 // Get the full grid range: Sunday before 1st to Saturday after last
 export const getFullWeeksRange = (year: number, month: number): Date[] => {
@@ -61,67 +87,65 @@ export const getDaysInMonth = (year: number, month: number): Date[] => {
 };
 
 // --- Parsing History CSV ---
-export const parsePastScheduleCSV = async (file: File, employees: Employee[]): Promise<HistoricalContext> => {
-  const text = await file.text();
-  const lines = text.split('\n').map(l => l.trim()).filter(l => l);
-  
-  if (lines.length < 2) throw new Error("Invalid CSV format");
-
-  const headerLine = lines[0].replace(/^\uFEFF/, '');
-  const headers = headerLine.split(',');
-  
-  const dayCols: number[] = [];
-  const nightCols: number[] = [];
-
-  headers.forEach((h, idx) => {
-    const lower = h.toLowerCase().replace(/"/g, '');
-    if (lower.includes('day shift worker') || lower.includes('day worker')) dayCols.push(idx);
-    if (lower.includes('night shift worker') || lower.includes('night worker')) nightCols.push(idx);
+// Names in the file that neither match an employee nor appear in the mapping
+// Names shared by several employees count as unmatched too: only the mapping can tell them apart
+export const findUnmatchedHistoryNames = (parsed: ParsedHistoryCSV, employees: Employee[], nameMapping: HistoryNameMapping = {}): string[] => {
+  const known = new Set(employees.map(e => e.name.toLowerCase()).filter((name, i, all) => all.indexOf(name) === all.lastIndexOf(name)));
+  const unmatched = new Map<string, string>();
+  parsed.rows.forEach(row => {
+    Object.values(row).flat().forEach(name => {
+      const key = name.toLowerCase();
+      if (!known.has(key) && !(key in nameMapping) && !unmatched.has(key)) unmatched.set(key, name);
+    });
   });
+  return Array.from(unmatched.values());
+};
 
-  const accumulatedStats: Record<string, { day: number, night: number, total: number }> = {};
+// Weekend and holiday shifts are only counted when every row of the file has a date
+export const buildHistoricalContext = (
+  parsed: ParsedHistoryCSV,
+  employees: Employee[],
+  config: ShiftConfig,
+  nameMapping: HistoryNameMapping = {}
+): HistoricalContext => {
+  const accumulatedStats: Record<string, AccumulatedStats> = {};
   const consecutiveDays: Record<string, number> = {};
-  let lastDayNightShiftIds: string[] = [];
+  let lastDayAssignments: ShiftAssignments = {};
+  const dated = parsed.dates?.length === parsed.rows.length;
 
   employees.forEach(e => {
-    accumulatedStats[e.id] = { day: 0, night: 0, total: 0 };
+    accumulatedStats[e.id] = dated ? { day: 0, night: 0, total: 0, weekend: 0, holiday: 0 } : { day: 0, night: 0, total: 0 };
     consecutiveDays[e.id] = 0;
   });
 
-  const findId = (nameRaw: string): string | undefined => {
-    const name = nameRaw.replace(/"/g, '').trim();
-    if (!name) return undefined;
-    return employees.find(e => e.name.toLowerCase() === name.toLowerCase())?.id;
+  const findId = (name: string): string | undefined => {
+    const key = name.toLowerCase();
+    if (key in nameMapping) return nameMapping[key] || undefined;
+    const matches = employees.filter(e => e.name.toLowerCase() === key);
+    return matches.length === 1 ? matches[0].id : undefined;
   };
 
-  for (let i = 1; i < lines.length; i++) {
-    const cells = lines[i].match(/(".*?"|[^",\s]+)(?=\s*,|\s*$)/g) || lines[i].split(',');
-    const cleanCells = cells.map(c => c.replace(/^"|"$/g, '').trim());
-
+  parsed.rows.forEach((row, i) => {
     const workedTodayIds: string[] = [];
-    const nightTodayIds: string[] = [];
-
-    dayCols.forEach(colIdx => {
-      if (colIdx < cleanCells.length) {
-        const id = findId(cleanCells[colIdx]);
-        if (id) {
-          accumulatedStats[id].day++;
-          accumulatedStats[id].total++;
-          workedTodayIds.push(id);
-        }
-      }
-    });
-
-    nightCols.forEach(colIdx => {
-      if (colIdx < cleanCells.length) {
-        const id = findId(cleanCells[colIdx]);
-        if (id) {
-          accumulatedStats[id].night++;
-          accumulatedStats[id].total++;
+    const todayAssignments: ShiftAssignments = {};
+
+    Object.entries(row).forEach(([shiftId, names]) => {
+      const def = getShiftDefinition(config, shiftId);
+      const categories = dated && def ? getSlotCategories(config, parsed.dates![i], def) : [];
+      todayAssignments[shiftId] = [];
+      names.forEach(name => {
+        const id = findId(name);
+        if (id && accumulatedStats[id]) {
+          const acc = accumulatedStats[id];
+          if (def?.type === ShiftType.NIGHT) acc.night++;
+          else acc.day++;
+          acc.total++;
+          if (categories.includes(UndesirableCategory.WEEKEND)) acc.weekend!++;
+          if (categories.includes(UndesirableCategory.HOLIDAY)) acc.holiday!++;
           workedTodayIds.push(id);
-          nightTodayIds.push(id);
+          todayAssignments[shiftId].push(id);
         }
-      }
+      });
     });
 
     employees.forEach(e => {
@@ -132,173 +156,200 @@ export const parsePastScheduleCSV = async (file: File, employees: Employee[]): P
       }
     });
 
-    if (i === lines.length - 1) {
-      lastDayNightShiftIds = nightTodayIds;
+    if (i === parsed.rows.length - 1) {
+      lastDayAssignments = todayAssignments;
     }
-  }
+  });
 
   return {
-    sourceName: file.name,
+    sourceName: parsed.sourceName,
     accumulatedStats,
     consecutiveDaysEnding: consecutiveDays,
-    lastDayNightShiftIds
+    lastDayAssignments
   };
 };
 
 // --- Core Generation Function ---
-export const generateSchedule = (
+// FNV-1a over everything generation reads from employees and rules. Names and colours are
+// left out: they never change who gets picked.
+export const fingerprintInputs = (employees: Employee[], config: ShiftConfig): string => {
+  const text = JSON.stringify([employees.map(({ name, color, ...rest }) => rest), config]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+  return hash.toString(16).padStart(8, '0');
+};
+
+export const generateSchedule = async (
   employees: Employee[],
   year: number,
   month: number,
   config: ShiftConfig,
   history?: HistoricalContext,
-  manualHistory?: ManualHistoryInput
-): ScheduleVersion => {
+  manualHistory?: ManualHistoryInput,
+  options: GenerateOptions = {}
+): Promise<ScheduleVersion> => {
+  const engine = options.engine || SolverEngine.GREEDY;
+  const locks = options.locks || { days: [], assignments: [] };
+  const seed = options.seed ?? randomSeed();
+  const random = createRandom(seed);
   const days = getFullWeeksRange(year, month);
   const totalDaysInMonth = new Date(year, month + 1, 0).getDate(); // For pacing calc
-  const schedule: DailySchedule[] = [];
-  
-  const workHistory = new Map<string, Set<string>>();
-  const lastShiftType = new Map<string, ShiftType | null>();
-  const consecutiveDays = new Map<string, number>();
-  const stats = new Map<string, { day: number, night: number, total: number }>();
+  const isTargetMonthDay = (d: Date) => d.getMonth() === month && d.getFullYear() === year;
+
+  // Days taken exactly as given: manual history (usually padding) and whole days locked in the version being regenerated
+  const fixedDates = new Set(Object.keys(manualHistory || {}));
+  const lockedSource = new Map((options.lockedSchedule || []).map(d => [d.date, d]));
+
+  // The whole timeline is laid out before picking, so rules that look ahead (rest, streaks) already see locked shifts
+  const schedule: DailySchedule[] = days.map(dayDate => {
+    const dateKey = formatDateKey(dayDate);
+    const day: DailySchedule = { date: dateKey, assignments: emptyAssignments(config), isPadding: !isTargetMonthDay(dayDate) };
+    const manualEntry = manualHistory ? manualHistory[dateKey] : undefined;
+    const lockedDay = locks.days.includes(dateKey) ? lockedSource.get(dateKey) : undefined;
+    if (manualEntry) {
+      day.assignments = { ...day.assignments, ...manualEntry };
+    } else if (lockedDay) {
+      Object.entries(lockedDay.assignments).forEach(([shiftId, ids]) => { day.assignments[shiftId] = [...ids]; });
+      fixedDates.add(dateKey);
+    }
+    return day;
+  });
+  const empIds = new Set(employees.map(e => e.id));
+  const lockedAssignments = locks.assignments.filter(l => empIds.has(l.employeeId) && !fixedDates.has(l.date));
+  lockedAssignments.forEach(l => {
+    const day = schedule.find(d => d.date === l.date);
+    if (day) day.assignments[l.shiftId] = [...getAssigned(day, l.shiftId), l.employeeId];
+  });
+
+  const stats = new Map<string, Required<AccumulatedStats>>();
+  const explanations: SlotExplanation[] = [];
+  const constraintCtx: ConstraintContext = { schedule, config, history };
   
   // Initialize from CSV history if provided
   employees.forEach(e => {
-    workHistory.set(e.id, new Set());
     if (history) {
        const hStats = history.accumulatedStats[e.id] || { day: 0, night: 0, total: 0 };
-       stats.set(e.id, { ...hStats });
-       consecutiveDays.set(e.id, history.consecutiveDaysEnding[e.id] || 0);
-       lastShiftType.set(e.id, null); 
+       stats.set(e.id, { ...hStats, weekend: hStats.weekend || 0, holiday: hStats.holiday || 0 });
     } else {
-       stats.set(e.id, { day: 0, night: 0, total: 0 });
-       consecutiveDays.set(e.id, 0);
-       lastShiftType.set(e.id, null);
+       stats.set(e.id, { day: 0, night: 0, total: 0, weekend: 0, holiday: 0 });
     }
   });
 
+  // Target-month shifts already placed on days not reached yet; they count towards quotas up front
+  const reserved = new Map<string, number>();
+  schedule.forEach(day => {
+    if (!day.isPadding) Object.values(day.assignments).flat().forEach(id => reserved.set(id, (reserved.get(id) || 0) + 1));
+  });
+
   for (let dayIndex = 0; dayIndex < days.length; dayIndex++) {
     const dayDate = days[dayIndex];
     const dateKey = formatDateKey(dayDate);
-    const dayOfWeek = dayDate.getDay();
-    const isTargetMonth = dayDate.getMonth() === month && dayDate.getFullYear() === year;
-    const isPadding = !isTargetMonth;
+    const isTargetMonth = isTargetMonthDay(dayDate);
+    const today = schedule[dayIndex];
+    const placedBefore = Object.values(today.assignments).flat();
 
     // Use current day number relative to target month (can be negative or > 31 for padding, but we clamp for pacing)
     let pacingDayNum = dayDate.getDate();
     if (dayDate.getMonth() < month) pacingDayNum = 0; // Pre-month
     if (dayDate.getMonth() > month) pacingDayNum = totalDaysInMonth; // Post-month
 
-    const reqs = config.requirements[dayOfWeek] || { day: 1, night: 1 };
-    
-    // Check Manual History Overrides (usually for padding days before the month starts)
-    const manualEntry = manualHistory ? manualHistory[dateKey] : undefined;
-
-    let dayWorkers: string[] = [];
-    let nightWorkers: string[] = [];
-
-    if (manualEntry) {
-      // Use manually provided input
-      dayWorkers = manualEntry.dayShift;
-      nightWorkers = manualEntry.nightShift;
-    } else {
-      // Generate automatically
-      
-      // Determine forbidden workers for Day shift (Day After Night rule)
-      const forbiddenDayWorkers: string[] = [];
-      // If we are at the very start of the loop and have CSV history, use it.
-      // Otherwise, the loop's own history (lastShiftType) handles it naturally.
-      if (dayIndex === 0 && history) {
-        forbiddenDayWorkers.push(...history.lastDayNightShiftIds);
-      }
-
-      // Day Shift
-      dayWorkers = pickWorkers(
-        employees,
-        reqs.day,
-        dayDate,
-        pacingDayNum,
-        totalDaysInMonth,
-        ShiftType.DAY,
-        workHistory,
-        lastShiftType,
-        consecutiveDays,
-        stats,
-        forbiddenDayWorkers, 
-        !!config.distributeDayShiftsToEither 
-      );
-      
-      // Night Shift
-      nightWorkers = pickWorkers(
-        employees,
-        reqs.night,
-        dayDate,
-        pacingDayNum,
-        totalDaysInMonth,
-        ShiftType.NIGHT,
-        workHistory,
-        lastShiftType,
-        consecutiveDays,
-        stats,
-        dayWorkers, 
-        false 
-      );
+    if (!fixedDates.has(dateKey)) {
+      // Generate automatically, one shift at a time in the order they run, around any locked workers;
+      // history before day 0 is handled by the constraint checks
+      config.shifts.forEach(def => {
+        const locked = getAssigned(today, def.id);
+        const lockedEmps = employees.filter(e => locked.includes(e.id));
+        const skillMinimums = Object.fromEntries(Object.entries(getDateSkillMinimums(config, dateKey, def.id))
+          .map(([skillId, min]) => [skillId, min - lockedEmps.filter(e => hasSkill(e, skillId)).length] as [string, number])
+          .filter(([, min]) => min > 0));
+        const { ids, candidates } = pickWorkers(
+          employees.filter(e => !locked.includes(e.id)),
+          getDateRequiredCount(config, dateKey, def.id) - locked.length,
+          skillMinimums,
+          dayDate,
+          dayIndex,
+          pacingDayNum,
+          totalDaysInMonth,
+          def,
+          constraintCtx,
+          stats,
+          getMarkedCategories(config, dateKey, def),
+          reserved,
+          random,
+          !!config.distributeDayShiftsToEither && def.type === ShiftType.DAY
+        );
+        today.assignments[def.id] = [...locked, ...ids];
+        explanations.push({ date: dateKey, shiftId: def.id, required: getDateRequiredCount(config, dateKey, def.id), locked, candidates });
+      });
     }
 
-    // --- Update Constraints & State ---
-    const todayWorkers = [...dayWorkers, ...nightWorkers];
-    
-    employees.forEach(e => {
-      const workedToday = todayWorkers.includes(e.id);
-      
-      if (workedToday) {
-        workHistory.get(e.id)?.add(dateKey);
-        consecutiveDays.set(e.id, (consecutiveDays.get(e.id) || 0) + 1);
-        
-        if (dayWorkers.includes(e.id)) {
-          lastShiftType.set(e.id, ShiftType.DAY);
-        } else {
-          lastShiftType.set(e.id, ShiftType.NIGHT);
-        }
-
-        // Only update STATS (Fairness/Quota) if it's the target month!
-        // Padding days influence constraints (consecutive) but don't count towards the month's paycheck/quota.
-        if (isTargetMonth) {
-          const s = stats.get(e.id)!;
-          s.total += 1;
-          if (dayWorkers.includes(e.id)) s.day += 1;
-          else s.night += 1;
-        }
-
-      } else {
-        consecutiveDays.set(e.id, 0);
-        lastShiftType.set(e.id, null); 
-      }
-    });
+    // Only update STATS (Fairness/Quota) if it's the target month!
+    // Padding days influence constraints (consecutive) but don't count towards the month's paycheck/quota.
+    if (isTargetMonth) {
+      placedBefore.forEach(id => reserved.set(id, (reserved.get(id) || 0) - 1));
+      employees.forEach(e => {
+        const shiftId = findEmployeeShift(today, e.id);
+        if (!shiftId) return;
+        const s = stats.get(e.id)!;
+        const def = getShiftDefinition(config, shiftId);
+        const categories = def ? getSlotCategories(config, dateKey, def) : [];
+        s.total += 1;
+        if (def?.type === ShiftType.NIGHT) s.night += 1;
+        else s.day += 1;
+        if (categories.includes(UndesirableCategory.WEEKEND)) s.weekend += 1;
+        if (categories.includes(UndesirableCategory.HOLIDAY)) s.holiday += 1;
+      });
+    }
+  }
 
-    schedule.push({
-      date: dateKey,
-      dayShift: dayWorkers,
-      nightShift: nightWorkers,
-      isPadding
-    });
+  // Optionally improve the greedy result globally; fixed days and locked workers stay exactly as they are
+  const greedyScore = scoreSchedule(schedule, employees, config, history);
+  let finalSchedule = schedule;
+  let solverReport: SolverReport = { engine, greedy: greedyScore };
+  if (engine === SolverEngine.OPTIMIZER) {
+    finalSchedule = await optimizeSchedule(schedule, employees, config, history, fixedDates, lockedAssignments, random, undefined, options.isCancelled);
+    solverReport.optimizer = scoreSchedule(finalSchedule, employees, config, history);
   }
 
-  // Calculate final stats for display (only counting non-padding days)
+  return {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    name: `Schedule ${new Date(year, month).toLocaleString('default', { month: 'short' })} ${year}`,
+    month,
+    year,
+    schedule: finalSchedule,
+    stats: computeEmployeeStats(finalSchedule, employees, config),
+    solverReport,
+    auditLog: [],
+    locks,
+    seed,
+    inputs: {
+      ...(history && { history }),
+      ...(manualHistory && { manualHistory }),
+      fingerprint: fingerprintInputs(employees, config)
+    },
+    explanations
+  };
+};
+
+// Calculate final stats for display (only counting non-padding days)
+export const computeEmployeeStats = (schedule: DailySchedule[], employees: Employee[], config: ShiftConfig): Record<string, EmployeeStats> => {
   const finalStats: Record<string, EmployeeStats> = {};
   
   employees.forEach(e => {
     let monthDay = 0;
     let monthNight = 0;
+    let monthWeekend = 0;
+    let monthHoliday = 0;
     let monthTotal = 0;
     let maxStreak = 0;
     let currentStreak = 0;
+    const shiftCounts: Record<string, number> = {};
     
     schedule.forEach(daySch => {
       // Streak calc considers padding days too (true exhaustion)
-      const worked = daySch.dayShift.includes(e.id) || daySch.nightShift.includes(e.id);
-      if (worked) {
+      const shiftId = findEmployeeShift(daySch, e.id);
+      if (shiftId) {
         currentStreak++;
         maxStreak = Math.max(maxStreak, currentStreak);
       } else {
@@ -306,224 +357,254 @@ export const generateSchedule = (
       }
 
       // Counts only consider target month
-      if (!daySch.isPadding && worked) {
+      if (!daySch.isPadding && shiftId) {
         monthTotal++;
-        if (daySch.dayShift.includes(e.id)) monthDay++;
-        else monthNight++;
+        shiftCounts[shiftId] = (shiftCounts[shiftId] || 0) + 1;
+        const def = getShiftDefinition(config, shiftId);
+        if (def?.type === ShiftType.NIGHT) monthNight++;
+        else monthDay++;
+        const categories = def ? getSlotCategories(config, daySch.date, def) : [];
+        if (categories.includes(UndesirableCategory.WEEKEND)) monthWeekend++;
+        if (categories.includes(UndesirableCategory.HOLIDAY)) monthHoliday++;
       }
     });
 
+    const requests = evaluateShiftRequests(e, schedule);
     finalStats[e.id] = {
       totalShifts: monthTotal,
       dayShifts: monthDay,
       nightShifts: monthNight,
-      longestStreak: maxStreak
+      weekendShifts: monthWeekend,
+      holidayShifts: monthHoliday,
+      shiftCounts,
+      longestStreak: maxStreak,
+      requestsGranted: requests.granted,
+      requestsDenied: requests.denied
     };
   });
 
-  return {
-    id: crypto.randomUUID(),
-    timestamp: Date.now(),
-    name: `Schedule ${new Date(year, month).toLocaleString('default', { month: 'short' })} ${year}`,
-    month,
-    year,
-    schedule,
-    stats: finalStats
-  };
+  return finalStats;
 };
 
 // Selection Logic
+const PACING_RANK: Record<PacingCategory, number> = {
+  [PacingCategory.BEHIND]: 1,
+  [PacingCategory.ON_PACE]: 2,
+  [PacingCategory.NO_QUOTA]: 2,
+  [PacingCategory.AHEAD]: 3
+};
+
+// Ranks the eligible workers for one slot and picks `count` of them. Returns the picks and, for the
+// explanation, every worker in the pool: eligible ones in rank order with the factors that placed
+// them there, then the ones a hard rule excluded.
 function pickWorkers(
   pool: Employee[],
   count: number,
+  skillMinimums: Record<string, number>,
   date: Date,
+  dayIndex: number,
   currentDayNum: number,
   totalDays: number,
-  shiftType: ShiftType,
-  workHistory: Map<string, Set<string>>,
-  lastShiftType: Map<string, ShiftType | null>,
-  consecutiveDays: Map<string, number>,
-  stats: Map<string, { day: number, night: number, total: number }>,
-  excludeIds: string[],
+  shift: ShiftDefinition,
+  constraintCtx: ConstraintContext,
+  stats: Map<string, Required<AccumulatedStats>>,
+  undesirable: UndesirableCategory[],
+  reserved: Map<string, number>,
+  random: Random,
   prioritizeEitherForDay: boolean = false
-): string[] {
-  const candidates = pool.filter(e => {
-    if (excludeIds.includes(e.id)) return false;
-
-    // Preference
-    if (shiftType === ShiftType.DAY && e.preference === WorkerPreference.NIGHT_ONLY) return false;
-    if (shiftType === ShiftType.NIGHT && e.preference === WorkerPreference.DAY_ONLY) return false;
-
-    // Availability
-    if (e.availability.daysOff.includes(date.getDay())) return false;
-
-    // HARD CONSTRAINT: Max 5 consecutive
-    if ((consecutiveDays.get(e.id) || 0) >= 5) return false;
-
-    // HARD CONSTRAINT: No Day after Night
-    if (shiftType === ShiftType.DAY) {
-        const yesterday = new Date(date);
-        yesterday.setDate(date.getDate() - 1);
-        const yKey = formatDateKey(yesterday);
-        const workedYesterday = workHistory.get(e.id)?.has(yKey);
-        
-        if (workedYesterday && lastShiftType.get(e.id) === ShiftType.NIGHT) {
-            return false;
-        }
+): { ids: string[]; candidates: SlotCandidate[] } {
+  // Hard constraints (availability, preference, configured rules) are all checked in one place
+  const checked = pool.map(e => ({ e, rules: findConstraintViolations(e, dayIndex, date, shift.id, constraintCtx) }));
+  const candidates = checked.filter(c => c.rules.length === 0).map(c => c.e);
+  const dateKey = formatDateKey(date);
+  const tieBreak = new Map(candidates.map(e => [e.id, random()]));
+  const history = constraintCtx.history;
+
+  const rankFactors = (e: Employee): RankFactors => {
+    const st = stats.get(e.id)!;
+    // Quotas are per month (plus any carry-over); stats also hold history totals, which only fairness uses
+    const target = getMonthTarget(e, history?.quotaCarry);
+    const monthTotal = st.total - (history?.accumulatedStats[e.id]?.total || 0);
+    let pacing = PacingCategory.NO_QUOTA;
+    if (target !== undefined) {
+      const diff = monthTotal - target * (Math.max(1, currentDayNum) / totalDays);
+      pacing = diff < -0.8 ? PacingCategory.BEHIND : diff > 0.8 ? PacingCategory.AHEAD : PacingCategory.ON_PACE;
     }
-
-    return true;
-  });
+    const either = e.preference === WorkerPreference.EITHER;
+    return {
+      // Locked shifts later in the month already count
+      metTarget: target !== undefined && monthTotal + (reserved.get(e.id) || 0) >= target,
+      pacing,
+      wish: requestAffinity(e, dateKey, date.getDay(), shift.id),
+      fairness: st.total - (prioritizeEitherForDay && either ? 2 : 0),
+      ...(either && { balance: shift.type === ShiftType.DAY ? st.day : st.night }),
+      ...(undesirable.length > 0 && { undesirable: undesirable.reduce((sum, c) => sum + st[ACCUMULATED_STATS[c]], 0) })
+    };
+  };
+  const factors = new Map(candidates.map(e => [e.id, rankFactors(e)]));
 
   // Sort candidates
   candidates.sort((a, b) => {
-    const statsA = stats.get(a.id)!;
-    const statsB = stats.get(b.id)!;
-    const targetA = a.targetShifts || 0;
-    const targetB = b.targetShifts || 0;
-    
+    const fa = factors.get(a.id)!;
+    const fb = factors.get(b.id)!;
+
     // Priority 1: Met Target? (Deprioritize if yes)
-    const metTargetA = targetA > 0 && statsA.total >= targetA;
-    const metTargetB = targetB > 0 && statsB.total >= targetB;
-    if (metTargetA !== metTargetB) return metTargetA ? 1 : -1; 
+    if (fa.metTarget !== fb.metTarget) return fa.metTarget ? 1 : -1; 
     
     // Priority 2: Pacing
-    const getPacingDiff = (empTarget: number, currentTotal: number) => {
-        if (empTarget <= 0) return 0;
-        const expected = empTarget * (Math.max(1, currentDayNum) / totalDays);
-        return currentTotal - expected;
-    };
+    if (PACING_RANK[fa.pacing] !== PACING_RANK[fb.pacing]) return PACING_RANK[fa.pacing] - PACING_RANK[fb.pacing];
 
-    const diffA = getPacingDiff(targetA, statsA.total);
-    const diffB = getPacingDiff(targetB, statsB.total);
-    const getCategory = (diff: number, hasTarget: boolean) => {
-        if (!hasTarget) return 2; 
-        if (diff < -0.8) return 1; // Urgent
-        if (diff > 0.8) return 3; // Cool Down
-        return 2;
-    };
+    // Priority 2.5: Soft requests (wants first, avoiders last)
+    if (fa.wish !== fb.wish) return fb.wish - fa.wish;
 
-    const catA = getCategory(diffA, targetA > 0);
-    const catB = getCategory(diffB, targetB > 0);
-    if (catA !== catB) return catA - catB;
+    // Priority 2.7: Undesirable shifts (weekends, holidays, nights as marked) shared out evenly
+    if (fa.undesirable !== undefined && fb.undesirable !== undefined && fa.undesirable !== fb.undesirable) return fa.undesirable - fb.undesirable;
 
     // Priority 3: Fairness (Total Shifts)
-    let scoreA = statsA.total;
-    let scoreB = statsB.total;
-
-    if (prioritizeEitherForDay && shiftType === ShiftType.DAY) {
-        if (a.preference === WorkerPreference.EITHER) scoreA -= 2;
-        if (b.preference === WorkerPreference.EITHER) scoreB -= 2;
-    }
-
-    if (scoreA !== scoreB) return scoreA - scoreB;
+    if (fa.fairness !== fb.fairness) return fa.fairness - fb.fairness;
     
     // Priority 4: Preference Balance
-    if (a.preference === WorkerPreference.EITHER && b.preference === WorkerPreference.EITHER) {
-        const aRatio = shiftType === ShiftType.DAY ? statsA.day : statsA.night;
-        const bRatio = shiftType === ShiftType.DAY ? statsB.day : statsB.night;
-        return aRatio - bRatio;
-    }
+    if (fa.balance !== undefined && fb.balance !== undefined && fa.balance !== fb.balance) return fa.balance - fb.balance;
 
-    return Math.random() - 0.5;
+    // Seeded tie-break, drawn once per candidate so the comparator stays consistent
+    return tieBreak.get(a.id)! - tieBreak.get(b.id)!;
   });
 
-  return candidates.slice(0, count).map(e => e.id);
-}
-
-export const exportToCSV = (version: ScheduleVersion, employees: Employee[]) => {
-    // Only export target month days, skip padding? Or include all?
-    // Standard practice: Export what is visible. The user asked for "full weeks" generation, implying they want the full grid.
-    let maxDay = 0;
-    let maxNight = 0;
-    version.schedule.forEach(s => {
-        maxDay = Math.max(maxDay, s.dayShift.length);
-        maxNight = Math.max(maxNight, s.nightShift.length);
+  // Qualified slots first, scarcest skill first, each taking the best-ranked holders;
+  // the remaining headcount goes to the best-ranked of everyone else
+  const picked: Employee[] = [];
+  const pickedFor = new Map<string, string>();
+  const qualified = (skillId: string) => candidates.filter(e => hasSkill(e, skillId)).length;
+  Object.keys(skillMinimums)
+    .sort((a, b) => qualified(a) - qualified(b))
+    .forEach(skillId => {
+      let have = picked.filter(e => hasSkill(e, skillId)).length;
+      for (const e of candidates) {
+        if (have >= skillMinimums[skillId] || picked.length >= count) break;
+        if (!picked.includes(e) && hasSkill(e, skillId)) { picked.push(e); pickedFor.set(e.id, skillId); have++; }
+      }
     });
+  candidates.forEach(e => { if (picked.length < count && !picked.includes(e)) picked.push(e); });
 
-    const headers = ['Date', 'Is Padding'];
-    for(let i=0; i<maxDay; i++) headers.push(`Day Shift Worker ${i+1}`);
-    for(let i=0; i<maxNight; i++) headers.push(`Night Shift Worker ${i+1}`);
-    
-    let csvContent = "\uFEFF" + headers.join(",") + "\n";
-
-    version.schedule.forEach(row => {
-        const line = [row.date, row.isPadding ? 'Yes' : 'No'];
-        for(let i=0; i<maxDay; i++) {
-            const id = row.dayShift[i];
-            const name = id ? employees.find(e => e.id === id)?.name || 'Unknown' : '';
-            line.push(`"${name.replace(/"/g, '""')}"`);
-        }
-        for(let i=0; i<maxNight; i++) {
-            const id = row.nightShift[i];
-            const name = id ? employees.find(e => e.id === id)?.name || 'Unknown' : '';
-            line.push(`"${name.replace(/"/g, '""')}"`);
-        }
-        csvContent += line.join(",") + "\n";
-    });
+  return {
+    ids: picked.map(e => e.id),
+    candidates: [
+      ...candidates.map(e => ({
+        employeeId: e.id,
+        factors: factors.get(e.id)!,
+        picked: picked.includes(e),
+        ...(pickedFor.has(e.id) && { pickedForSkill: pickedFor.get(e.id) })
+      })),
+      ...checked.filter(c => c.rules.length > 0).map(c => ({ employeeId: c.e.id, excludedBy: c.rules, picked: false }))
+    ]
+  };
+}
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `schedule_${version.month + 1}_${version.year}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-};
+// Audit log as flat rows (one per added or removed worker) for the exports
+export const AUDIT_HEADERS = ['Timestamp', 'Date', 'Shift', 'Employee', 'Change', 'Reason'];
+export const auditRows = (version: ScheduleVersion, shifts: ShiftDefinition[]): string[][] =>
+  version.auditLog.flatMap(entry => entry.changes.map(c => [
+    new Date(entry.timestamp).toLocaleString(),
+    c.date,
+    shifts.find(s => s.id === c.shiftId)?.name ?? c.shiftId,
+    c.employeeName,
+    c.action,
+    entry.reason || ''
+  ]));
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const exportToExcel = (version: ScheduleVersion, employees: Employee[], config: ShiftConfig) => {
+    const shifts = getVersionShifts(version.schedule, config);
+    const maxPerShift = shifts.map(def => Math.max(0, ...version.schedule.map(s => getAssigned(s, def.id).length)));
+    const getName = (id: string | undefined) => id ? employees.find(e => e.id === id)?.name || 'Unknown' : '';
+    const dateCell = (dateKey: string): XlsxCell => ({ type: 'date', serial: toExcelSerial(dateKey) });
 
-export const exportToExcel = (version: ScheduleVersion, employees: Employee[]) => {
-    let maxDay = 0;
-    let maxNight = 0;
-    version.schedule.forEach(s => {
-        maxDay = Math.max(maxDay, s.dayShift.length);
-        maxNight = Math.max(maxNight, s.nightShift.length);
+    // Roster: one row per day of the full-week grid
+    const rosterHeader: XlsxCell[] = ['Date', 'Weekday', 'In Month'];
+    shifts.forEach((def, si) => {
+        for(let i=0; i<maxPerShift[si]; i++) rosterHeader.push(`${def.name} Worker ${i+1}`);
     });
+    const roster: XlsxSheet = {
+        name: 'Roster',
+        headerRows: 1,
+        frozenColumns: 1,
+        columnWidths: [12, 10, 10, ...maxPerShift.flatMap(n => Array(n).fill(20))],
+        rows: [rosterHeader, ...version.schedule.map(row => {
+            const cells: XlsxCell[] = [dateCell(row.date), WEEKDAY_NAMES[parseDateKey(row.date).getDay()], row.isPadding ? 'No' : 'Yes'];
+            shifts.forEach((def, si) => {
+                const ids = getAssigned(row, def.id);
+                for(let i=0; i<maxPerShift[si]; i++) cells.push(getName(ids[i]) || null);
+            });
+            return cells;
+        })]
+    };
 
-    const getName = (id: string | undefined) => id ? employees.find(e => e.id === id)?.name || 'Unknown' : '';
+    // One sheet per employee with their target-month shifts and actual start/end times
+    const employeeSheets: XlsxSheet[] = employees.map(emp => {
+        const rows: XlsxCell[][] = [];
+        version.schedule.forEach(day => {
+            const shiftId = day.isPadding ? null : findEmployeeShift(day, emp.id);
+            if (!shiftId) return;
+            const def = getShiftDefinition(config, shiftId);
+            const window = def ? getShiftWindow(def, 0) : null;
+            rows.push([
+                dateCell(day.date),
+                WEEKDAY_NAMES[parseDateKey(day.date).getDay()],
+                shifts.find(s => s.id === shiftId)?.name ?? shiftId,
+                window ? { type: 'datetime', serial: toExcelSerial(day.date, window[0]) } : null,
+                window ? { type: 'datetime', serial: toExcelSerial(day.date, window[1]) } : null,
+                window ? window[1] - window[0] : null
+            ]);
+        });
+        return {
+            name: emp.name,
+            headerRows: 1,
+            columnWidths: [12, 10, 14, 18, 18, 8],
+            rows: [['Date', 'Weekday', 'Shift', 'Start', 'End', 'Hours'], ...rows]
+        };
+    });
 
-    let headerCells = `<th style="background-color:#e2e8f0; border:1px solid #94a3b8;">Date</th>`;
-    for(let i=0; i<maxDay; i++) headerCells += `<th style="background-color:#fef3c7; border:1px solid #94a3b8;">Day Worker ${i+1}</th>`;
-    for(let i=0; i<maxNight; i++) headerCells += `<th style="background-color:#e0e7ff; border:1px solid #94a3b8;">Night Worker ${i+1}</th>`;
+    // Stats: month totals per employee against their target
+    const stats: XlsxSheet = {
+        name: 'Stats',
+        headerRows: 1,
+        frozenColumns: 1,
+        columnWidths: [20, ...shifts.map(() => 10), 10, 10, 10, 10, 12, 14, 18, 17],
+        rows: [
+            ['Employee', ...shifts.map(s => s.name), 'Total', 'Weekend', 'Holiday', 'Target', 'Difference', 'Longest Streak', 'Requests Granted', 'Requests Denied'],
+            ...employees.map(emp => {
+                const st = version.stats[emp.id];
+                const target = getMonthTarget(emp, version.continuity?.quotaCarry) ?? null;
+                return [
+                    emp.name,
+                    ...shifts.map(s => st?.shiftCounts[s.id] || 0),
+                    st?.totalShifts || 0,
+                    st?.weekendShifts || 0,
+                    st?.holidayShifts || 0,
+                    target,
+                    target !== null ? (st?.totalShifts || 0) - target : null,
+                    st?.longestStreak || 0,
+                    st?.requestsGranted || 0,
+                    st?.requestsDenied || 0
+                ];
+            })
+        ]
+    };
 
-    let tableRows = '';
-    version.schedule.forEach(row => {
-        const bg = row.isPadding ? '#f1f5f9' : '#ffffff';
-        let rowCells = `<td style="border:1px solid #cbd5e1; background-color:${bg};">${row.date}${row.isPadding ? ' (Pad)' : ''}</td>`;
-        for(let i=0; i<maxDay; i++) {
-            rowCells += `<td style="border:1px solid #cbd5e1; background-color:${bg};">${getName(row.dayShift[i])}</td>`;
-        }
-        for(let i=0; i<maxNight; i++) {
-            rowCells += `<td style="border:1px solid #cbd5e1; background-color:${bg};">${getName(row.nightShift[i])}</td>`;
-        }
-        tableRows += `<tr>${rowCells}</tr>`;
-    });
+    const sheets = [roster, ...employeeSheets, stats];
+    if (version.auditLog.length > 0) {
+        sheets.push({
+            name: 'Audit Log',
+            headerRows: 1,
+            columnWidths: [20, 12, 14, 20, 10, 30],
+            rows: [AUDIT_HEADERS, ...auditRows(version, shifts)]
+        });
+    }
 
-    const tableHtml = `
-      <table style="border-collapse: collapse; width: 100%; font-family: Arial, sans-serif; color: #000;">
-        <thead><tr>${headerCells}</tr></thead>
-        <tbody>${tableRows}</tbody>
-      </table>
-    `;
-
-    const template = `
-      <html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel" xmlns="http://www.w3.org/TR/REC-html40">
-      <head>
-        <meta http-equiv="Content-Type" content="text/html; charset=UTF-8">
-        <!--[if gte mso 9]><xml><x:ExcelWorkbook><x:ExcelWorksheets><x:ExcelWorksheet><x:Name>Schedule</x:Name><x:WorksheetOptions><x:DisplayGridlines/></x:WorksheetOptions></x:ExcelWorksheet></x:ExcelWorksheets></x:ExcelWorkbook></xml><![endif]-->
-      </head>
-      <body>${tableHtml}</body>
-      </html>
-    `;
-
-    const blob = new Blob([template], { type: 'application/vnd.ms-excel;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `schedule_${version.month + 1}_${version.year}.xls`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadFile(
+        buildXlsx(sheets),
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        `schedule_${version.month + 1}_${version.year}.xlsx`
+    );
 };
@@ -0,0 +1,715 @@
+import {
+  Employee,
+  ShiftConfig,
+  ShiftDefinition,
+  ShiftType,
+  Skill,
+  WorkerPreference,
+  RequestKind,
+  TimeOffEntry,
+  ShiftRequest,
+  ShiftRequirement,
+  HardConstraints,
+  ScheduleVersion,
+  Holiday,
+  DateOverride,
+  UndesirableCategory
+} from '../types';
+import { DEFAULT_HARD_CONSTRAINTS } from './constraints';
+import { DEFAULT_UNDESIRABLE, DEFAULT_WEEKEND_DAYS } from './fairness';
+import { CSV_MIME, formatCSV, isBlankRow, parseCSV } from './csv';
+import { downloadFile } from './download';
+import { formatDateKey, parseDateKey } from './dates';
+
+// Workforce and rules as files, to move a site's setup between machines or share rule templates.
+// Both come as JSON (complete) or CSV (spreadsheet-friendly); every import is validated and
+// reports problems per row before anything is applied.
+
+export type SetupFileFormat = 'json' | 'csv';
+
+export enum WorkforceImportMode {
+  MERGE = 'Merge', // Update matching employees, add the rest, keep everyone else
+  REPLACE = 'Replace' // The file becomes the workforce; matching employees keep their IDs
+}
+
+const WORKFORCE_FORMAT = 'shiftmaster-workforce';
+const RULES_FORMAT = 'shiftmaster-rules';
+const JSON_MIME = 'application/json;charset=utf-8';
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const todayStamp = () => new Date().toISOString().slice(0, 10);
+
+// --- Field Readers ---
+// Each returns the parsed value or throws a message that is prefixed with the row label
+
+const readWeekday = (value: string): number => {
+  const v = value.trim().toLowerCase();
+  const idx = /^[0-6]$/.test(v) ? Number(v) : WEEKDAYS.findIndex(d => v === d.toLowerCase() || (v.length > 3 && d.toLowerCase() === v.slice(0, 3)));
+  if (idx < 0) throw new Error(`"${value}" is not a weekday`);
+  return idx;
+};
+
+const readTime = (value: string, field: string): string => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) throw new Error(`${field} "${value}" is not a time (HH:MM)`);
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+};
+
+const readColor = (value: string): string => {
+  if (!/^#[0-9a-f]{6}$/i.test(value.trim())) throw new Error(`colour "${value}" is not a hex colour like #d97706`);
+  return value.trim().toLowerCase();
+};
+
+// Employees get a pastel hsl() colour when added (the samples have #fff), so both read back besides hex
+const readEmployeeColor = (value: string): string => {
+  const trimmed = value.trim();
+  if (/^#[0-9a-f]{3}$/i.test(trimmed) || /^hsl\(\s*\d{1,3}\s*,\s*\d{1,3}%\s*,\s*\d{1,3}%\s*\)$/i.test(trimmed)) return trimmed;
+  return readColor(trimmed);
+};
+
+// Empty means "no limit" / "not set"
+const readOptionalNumber = (value: unknown, field: string, integer: boolean = true): number | null => {
+  if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) return null;
+  const n = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isFinite(n) || n < 0 || (integer && !Number.isInteger(n))) throw new Error(`${field} "${value}" is not a ${integer ? 'whole ' : ''}number of 0 or more`);
+  return n;
+};
+
+const readPreference = (value: string): WorkerPreference => {
+  const v = value.trim().toLowerCase();
+  const pref = Object.values(WorkerPreference).find(p => p.toLowerCase() === v);
+  if (!pref) throw new Error(`preference "${value}" must be one of ${Object.values(WorkerPreference).join(', ')}`);
+  return pref;
+};
+
+const readShiftType = (value: string): ShiftType => {
+  const type = Object.values(ShiftType).find(t => t.toLowerCase() === value.trim().toLowerCase());
+  if (!type) throw new Error(`category "${value}" must be ${Object.values(ShiftType).join(' or ')}`);
+  return type;
+};
+
+const readFlag = (value: string): boolean => /^(yes|y|true|1)$/i.test(value.trim());
+
+const readUndesirable = (value: string): UndesirableCategory => {
+  const category = Object.values(UndesirableCategory).find(c => c.toLowerCase() === value.trim().toLowerCase());
+  if (!category) throw new Error(`undesirable shift "${value}" must be one of ${Object.values(UndesirableCategory).join(', ')}`);
+  return category;
+};
+
+const splitList = (value: string, separators: RegExp): string[] => value.split(separators).map(v => v.trim()).filter(v => v);
+
+// A real calendar day: 2025-02-30 or 2025-13-01 do not survive the round trip through Date
+const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && formatDateKey(parseDateKey(value)) === value;
+
+// Runs a reader and turns its error into "<label>: <message>"
+const attempt = <T,>(label: string, errors: string[], read: () => T): T | undefined => {
+  try {
+    return read();
+  } catch (e) {
+    errors.push(`${label}: ${e instanceof Error ? e.message : String(e)}`);
+    return undefined;
+  }
+};
+
+// --- Workforce Files ---
+// Fields an import provides for one employee. Anything left undefined is kept from the
+// existing employee (or defaulted for a new one); targetShifts null clears the quota.
+export interface EmployeeFields {
+  name: string;
+  preference?: WorkerPreference;
+  daysOff?: number[];
+  timeOff?: TimeOffEntry[];
+  targetShifts?: number | null;
+  shiftRequests?: ShiftRequest[];
+  skills?: string[];
+  color?: string;
+}
+
+export interface WorkforceRecord {
+  label: string; // "Row 3" or "Employee 2", for messages
+  id?: string;
+  fields: EmployeeFields;
+}
+
+export interface WorkforceFile {
+  records: WorkforceRecord[];
+  errors: string[];
+}
+
+const WORKFORCE_HEADERS = ['Id', 'Name', 'Preference', 'Days Off', 'Target Shifts', 'Color', 'Skills'];
+
+export const buildWorkforceJSON = (employees: Employee[], skills: Skill[]): string =>
+  JSON.stringify({ format: WORKFORCE_FORMAT, exportedAt: new Date().toISOString(), skills, employees }, null, 2);
+
+export const buildWorkforceCSV = (employees: Employee[], skills: Skill[]): string =>
+  "\uFEFF" + formatCSV([
+    WORKFORCE_HEADERS,
+    ...employees.map(e => [
+      e.id,
+      e.name,
+      e.preference,
+      [...e.availability.daysOff].sort().map(d => WEEKDAYS[d]).join(' '),
+      e.targetShifts ? String(e.targetShifts) : '',
+      e.color,
+      e.skills.map(id => skills.find(s => s.id === id)?.name).filter(Boolean).join('; ')
+    ])
+  ]);
+
+export const exportWorkforce = (employees: Employee[], skills: Skill[], format: SetupFileFormat) => {
+  if (format === 'json') downloadFile(buildWorkforceJSON(employees, skills), JSON_MIME, `workforce_${todayStamp()}.json`);
+  else downloadFile(buildWorkforceCSV(employees, skills), CSV_MIME, `workforce_${todayStamp()}.csv`);
+};
+
+// Skill names (CSV) or IDs (JSON, with the exporting site's catalog to fall back on by name)
+const resolveSkills = (values: string[], catalog: Skill[], fileCatalog: Skill[] = []): string[] =>
+  values.map(value => {
+    const byId = catalog.find(s => s.id === value);
+    if (byId) return byId.id;
+    const name = (fileCatalog.find(s => s.id === value)?.name ?? value).toLowerCase();
+    const byName = catalog.find(s => s.name.toLowerCase() === name);
+    if (!byName) throw new Error(`skill "${fileCatalog.find(s => s.id === value)?.name ?? value}" is not in the skills catalog`);
+    return byName.id;
+  });
+
+const parseWorkforceCSV = (text: string, skills: Skill[]): WorkforceFile => {
+  const errors: string[] = [];
+  const rows = parseCSV(text);
+  const headerIdx = rows.findIndex(r => !isBlankRow(r));
+  if (headerIdx < 0) return { records: [], errors: ['The file is empty'] };
+  const headers = rows[headerIdx].map(h => h.trim().toLowerCase());
+  const col = (name: string) => headers.indexOf(name.toLowerCase());
+  if (col('Name') < 0) return { records: [], errors: ['The header has no "Name" column'] };
+
+  const records: WorkforceRecord[] = [];
+  rows.slice(headerIdx + 1).forEach((row, i) => {
+    if (isBlankRow(row)) return;
+    const label = `Row ${headerIdx + i + 2}`;
+    const cell = (name: string): string | undefined => col(name) >= 0 ? (row[col(name)] ?? '').trim() : undefined;
+    const rowErrors: string[] = [];
+    const name = cell('Name')!;
+    if (!name) { errors.push(`${label}: name is empty`); return; }
+    const fields: EmployeeFields = { name };
+    const pref = cell('Preference');
+    if (pref) fields.preference = attempt(label, rowErrors, () => readPreference(pref));
+    const daysOff = cell('Days Off');
+    if (daysOff !== undefined) fields.daysOff = attempt(label, rowErrors, () => Array.from(new Set(splitList(daysOff, /[\s,;|]+/).map(readWeekday))));
+    const target = cell('Target Shifts');
+    if (target !== undefined) fields.targetShifts = attempt(label, rowErrors, () => readOptionalNumber(target, 'target shifts') || null);
+    const color = cell('Color');
+    if (color) fields.color = attempt(label, rowErrors, () => readEmployeeColor(color));
+    const skillList = cell('Skills');
+    if (skillList !== undefined) fields.skills = attempt(label, rowErrors, () => resolveSkills(splitList(skillList, /[,;|]+/), skills));
+    errors.push(...rowErrors);
+    if (rowErrors.length === 0) records.push({ label, id: cell('Id') || undefined, fields });
+  });
+  return { records, errors };
+};
+
+const parseTimeOff = (raw: unknown): TimeOffEntry[] => {
+  if (!Array.isArray(raw)) throw new Error('timeOff must be a list');
+  return raw.map((t: any) => {
+    if (!isDateKey(t?.startDate) || !isDateKey(t?.endDate) || t.endDate < t.startDate) throw new Error('time off needs a startDate and endDate (YYYY-MM-DD, end not before start)');
+    return { id: typeof t.id === 'string' ? t.id : crypto.randomUUID(), startDate: t.startDate, endDate: t.endDate, shiftId: t.shiftId || undefined, reason: t.reason || undefined };
+  });
+};
+
+const parseShiftRequests = (raw: unknown): ShiftRequest[] => {
+  if (!Array.isArray(raw)) throw new Error('shiftRequests must be a list');
+  return raw.map((r: any) => {
+    if (!Object.values(RequestKind).includes(r?.kind)) throw new Error(`request kind must be ${Object.values(RequestKind).join(' or ')}`);
+    if (r.date !== undefined && r.date !== null && r.date !== '' && !isDateKey(r.date)) throw new Error(`request date "${r.date}" is not a date (YYYY-MM-DD)`);
+    if (!isDateKey(r.date) && !(Number.isInteger(r.dayOfWeek) && r.dayOfWeek >= 0 && r.dayOfWeek <= 6)) throw new Error('a request needs a date or a dayOfWeek (0-6)');
+    const weight = Number(r.weight);
+    if (!(weight >= 1 && weight <= 5)) throw new Error('request weight must be between 1 and 5');
+    return { id: typeof r.id === 'string' ? r.id : crypto.randomUUID(), kind: r.kind, date: isDateKey(r.date) ? r.date : undefined, dayOfWeek: isDateKey(r.date) ? undefined : r.dayOfWeek, shiftId: r.shiftId || undefined, weight };
+  });
+};
+
+const parseWorkforceJSON = (data: any, skills: Skill[]): WorkforceFile => {
+  const list = Array.isArray(data) ? data : data?.employees;
+  if (!Array.isArray(list)) return { records: [], errors: ['The file has no "employees" list'] };
+  const fileSkills: Skill[] = Array.isArray(data?.skills) ? data.skills : [];
+  const errors: string[] = [];
+  const records: WorkforceRecord[] = [];
+  list.forEach((raw: any, i: number) => {
+    const label = `Employee ${i + 1}`;
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+    if (!name) { errors.push(`${label}: name is missing`); return; }
+    const rowErrors: string[] = [];
+    const fields: EmployeeFields = { name };
+    const availability = raw.availability || {};
+    if (raw.preference !== undefined) fields.preference = attempt(label, rowErrors, () => readPreference(String(raw.preference)));
+    const daysOff = availability.daysOff ?? raw.daysOff;
+    if (daysOff !== undefined) fields.daysOff = attempt(label, rowErrors, () => {
+      if (!Array.isArray(daysOff) || daysOff.some(d => !Number.isInteger(d) || d < 0 || d > 6)) throw new Error('daysOff must be a list of weekdays 0-6');
+      return Array.from(new Set<number>(daysOff));
+    });
+    if (availability.timeOff !== undefined) fields.timeOff = attempt(label, rowErrors, () => parseTimeOff(availability.timeOff));
+    if ('targetShifts' in raw) fields.targetShifts = attempt(label, rowErrors, () => readOptionalNumber(raw.targetShifts, 'target shifts') || null);
+    if (raw.shiftRequests !== undefined) fields.shiftRequests = attempt(label, rowErrors, () => parseShiftRequests(raw.shiftRequests));
+    if (raw.skills !== undefined) fields.skills = attempt(label, rowErrors, () => {
+      if (!Array.isArray(raw.skills)) throw new Error('skills must be a list');
+      return resolveSkills(raw.skills.map(String), skills, fileSkills);
+    });
+    if (raw.color !== undefined && raw.color !== '') fields.color = attempt(label, rowErrors, () => readEmployeeColor(String(raw.color)));
+    errors.push(...rowErrors);
+    if (rowErrors.length === 0) records.push({ label, id: typeof raw.id === 'string' && raw.id ? raw.id : undefined, fields });
+  });
+  return { records, errors };
+};
+
+const looksLikeJSON = (text: string, fileName: string) => /\.json$/i.test(fileName) || /^\s*[[{]/.test(text.replace(/^\uFEFF/, ''));
+
+export const parseWorkforceFile = (text: string, fileName: string, skills: Skill[]): WorkforceFile => {
+  if (!looksLikeJSON(text, fileName)) return parseWorkforceCSV(text, skills);
+  try {
+    return parseWorkforceJSON(JSON.parse(text.replace(/^\uFEFF/, '')), skills);
+  } catch (e) {
+    return { records: [], errors: [`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+};
+
+export interface WorkforceImportResult {
+  employees: Employee[];
+  added: number;
+  updated: number;
+  removed: number;
+  errors: string[];
+}
+
+// Matches each record to an existing employee so that versions, whose assignments and stats are
+// keyed by employee ID, keep pointing at the same people:
+// 1. same ID and same name; 2. the only employee with that name (the file's ID changed);
+// 3. same ID under a new name (a rename). Anything else is a new employee, which keeps the
+// file's ID only if no employee or version has ever used it.
+export const mergeWorkforce = (
+  records: WorkforceRecord[],
+  employees: Employee[],
+  versions: ScheduleVersion[],
+  mode: WorkforceImportMode
+): WorkforceImportResult => {
+  const errors: string[] = [];
+  const usedIds = new Set([
+    ...employees.map(e => e.id),
+    ...versions.flatMap(v => [...Object.keys(v.stats), ...v.schedule.flatMap(d => Object.values(d.assignments).flat())])
+  ]);
+  const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+  const claimedBy = new Map<string, string>(); // Existing employee ID -> record label
+  const updates = new Map<string, Employee>();
+  const added: Employee[] = [];
+
+  records.forEach((rec, i) => {
+    const { name } = rec.fields;
+    const duplicate = records.slice(0, i).find(other => sameName(other.fields.name, name) && (!rec.id || !other.id));
+    if (duplicate) { errors.push(`${rec.label}: duplicate name "${name}" (also ${duplicate.label}); add distinct IDs to keep both`); return; }
+
+    const idMatch = rec.id ? employees.find(e => e.id === rec.id) : undefined;
+    const nameMatches = employees.filter(e => sameName(e.name, name));
+    let target: Employee | undefined;
+    if (idMatch && sameName(idMatch.name, name)) target = idMatch;
+    else if (nameMatches.length === 1) target = nameMatches[0];
+    else if (nameMatches.length > 1) { errors.push(`${rec.label}: "${name}" matches ${nameMatches.length} employees; add the ID of the one to update`); return; }
+    else if (idMatch) target = idMatch;
+
+    const f = rec.fields;
+    if (target) {
+      if (claimedBy.has(target.id)) { errors.push(`${rec.label}: "${name}" is the same employee as ${claimedBy.get(target.id)}`); return; }
+      claimedBy.set(target.id, rec.label);
+      updates.set(target.id, {
+        ...target,
+        name,
+        preference: f.preference ?? target.preference,
+        availability: { daysOff: f.daysOff ?? target.availability.daysOff, timeOff: f.timeOff ?? target.availability.timeOff },
+        targetShifts: f.targetShifts === undefined ? target.targetShifts : f.targetShifts ?? undefined,
+        shiftRequests: f.shiftRequests ?? target.shiftRequests,
+        skills: f.skills ?? target.skills,
+        color: f.color ?? target.color
+      });
+      return;
+    }
+
+    const id = rec.id && !usedIds.has(rec.id) ? rec.id : crypto.randomUUID();
+    usedIds.add(id);
+    added.push({
+      id,
+      name,
+      preference: f.preference ?? WorkerPreference.EITHER,
+      availability: { daysOff: f.daysOff ?? [], timeOff: f.timeOff ?? [] },
+      targetShifts: f.targetShifts ?? undefined,
+      shiftRequests: f.shiftRequests ?? [],
+      skills: f.skills ?? [],
+      color: f.color ?? `hsl(${Math.floor(Math.random() * 360)}, 70%, 80%)`
+    });
+  });
+
+  const kept = employees
+    .filter(e => mode === WorkforceImportMode.MERGE || updates.has(e.id))
+    .map(e => updates.get(e.id) ?? e);
+  return {
+    employees: [...kept, ...added],
+    added: added.length,
+    updated: updates.size,
+    removed: employees.length - kept.length,
+    errors
+  };
+};
+
+// --- Rules Files ---
+// CSV layout: titled blocks separated by blank rows, each with its own header row
+const CONSTRAINT_FIELDS: { key: keyof HardConstraints; label: string }[] = [
+  { key: 'maxConsecutiveDays', label: 'Max consecutive days' },
+  { key: 'minRestHours', label: 'Min rest hours' },
+  { key: 'maxNightsPerWeek', label: 'Max nights per week' },
+  { key: 'minDaysOffPer7Days', label: 'Min days off per 7 days' }
+];
+const DISTRIBUTE_OPTION = 'Distribute day shifts to Either workers';
+const UNDESIRABLE_OPTION = 'Undesirable shifts';
+const WEEKEND_OPTION = 'Weekend days';
+
+export interface RulesImportResult {
+  config: ShiftConfig | null;
+  errors: string[];
+}
+
+export const buildRulesJSON = (config: ShiftConfig): string =>
+  JSON.stringify({ format: RULES_FORMAT, exportedAt: new Date().toISOString(), config }, null, 2);
+
+export const buildRulesCSV = (config: ShiftConfig): string => {
+  const requirementRows = WEEKDAYS.flatMap((day, dow) => config.shifts.map(def => {
+    const req = config.requirements[dow]?.[def.id] ?? { count: 1, skills: {} };
+    return [day, def.id, String(req.count), ...config.skills.map(s => req.skills[s.id] ? String(req.skills[s.id]) : '')];
+  }));
+  return "\uFEFF" + formatCSV([
+    ['Shifts'],
+    ['Id', 'Name', 'Start', 'End', 'Color', 'Category'],
+    ...config.shifts.map(s => [s.id, s.name, s.startTime, s.endTime, s.color, s.type]),
+    [],
+    ['Skills'],
+    ['Id', 'Name'],
+    ...config.skills.map(s => [s.id, s.name]),
+    [],
+    ['Requirements'],
+    ['Weekday', 'Shift', 'Workers', ...config.skills.map(s => s.name)],
+    ...requirementRows,
+    [],
+    ['Holidays'],
+    ['Id', 'Date', 'Name', 'As Weekday', 'Closed Shifts'],
+    ...config.holidays.map(h => [h.id, h.date, h.name, h.asWeekday === undefined ? '' : WEEKDAYS[h.asWeekday], h.closedShiftIds.join('; ')]),
+    [],
+    ['Date Overrides'],
+    ['Date', 'Shift', 'Workers', ...config.skills.map(s => s.name), 'Note'],
+    ...config.dateOverrides.flatMap(o => Object.entries(o.requirements).map(([shiftId, req]) =>
+      [o.date, shiftId, String(req.count), ...config.skills.map(s => req.skills[s.id] ? String(req.skills[s.id]) : ''), o.note ?? ''])),
+    [],
+    ['Constraints'],
+    ['Rule', 'Value'],
+    ...CONSTRAINT_FIELDS.map(c => [c.label, config.constraints[c.key] === null ? '' : String(config.constraints[c.key])]),
+    [],
+    ['Options'],
+    ['Option', 'Value'],
+    [DISTRIBUTE_OPTION, config.distributeDayShiftsToEither ? 'Yes' : 'No'],
+    [UNDESIRABLE_OPTION, config.undesirable.join('; ')],
+    [WEEKEND_OPTION, [...config.weekendDays].sort().map(d => WEEKDAYS[d]).join(' ')]
+  ]);
+};
+
+export const exportRules = (config: ShiftConfig, format: SetupFileFormat) => {
+  if (format === 'json') downloadFile(buildRulesJSON(config), JSON_MIME, `rules_${todayStamp()}.json`);
+  else downloadFile(buildRulesCSV(config), CSV_MIME, `rules_${todayStamp()}.csv`);
+};
+
+const readShift = (raw: { id: string; name: string; startTime: string; endTime: string; color: string; type: string }): ShiftDefinition => {
+  if (!raw.id.trim()) throw new Error('shift ID is empty');
+  if (!raw.name.trim()) throw new Error('shift name is empty');
+  return {
+    id: raw.id.trim(),
+    name: raw.name.trim(),
+    startTime: readTime(raw.startTime, 'start'),
+    endTime: readTime(raw.endTime, 'end'),
+    color: readColor(raw.color),
+    type: readShiftType(raw.type)
+  };
+};
+
+const readDate = (value: string): string => {
+  if (!isDateKey(value.trim())) throw new Error(`date "${value}" is not a date (YYYY-MM-DD)`);
+  return value.trim();
+};
+
+const findShift = (shifts: ShiftDefinition[], ref: string): ShiftDefinition | undefined =>
+  shifts.find(s => s.id === ref) ?? shifts.find(s => s.name.toLowerCase() === ref.toLowerCase());
+
+const readHoliday = (raw: { id: string; date: string; name: string; asWeekday: string; closed: string[] }, shifts: ShiftDefinition[]): Holiday => {
+  if (!raw.name.trim()) throw new Error('holiday name is empty');
+  const closedShiftIds = raw.closed.map(ref => {
+    const def = findShift(shifts, ref);
+    if (!def) throw new Error(`closed shift "${ref}" is not a known shift`);
+    return def.id;
+  });
+  return {
+    id: raw.id.trim() || crypto.randomUUID(),
+    date: readDate(raw.date),
+    name: raw.name.trim(),
+    asWeekday: raw.asWeekday.trim() ? readWeekday(raw.asWeekday) : undefined,
+    closedShiftIds: Array.from(new Set(closedShiftIds))
+  };
+};
+
+// Cross-checks shared by both formats: one holiday and one override per date
+const checkCalendar = (holidays: Holiday[], dateOverrides: DateOverride[], errors: string[]) => {
+  const dupe = (dates: string[]) => dates.find((d, i) => dates.indexOf(d) !== i);
+  const holidayDupe = dupe(holidays.map(h => h.date));
+  if (holidayDupe) errors.push(`Holidays: ${holidayDupe} has more than one holiday`);
+  const overrideDupe = dupe(dateOverrides.map(o => o.date));
+  if (overrideDupe) errors.push(`Date overrides: ${overrideDupe} appears twice`);
+};
+
+// Cross-checks shared by both formats: unique IDs and at least one shift
+const checkCatalogs = (shifts: ShiftDefinition[], skills: Skill[], errors: string[]) => {
+  if (shifts.length === 0) errors.push('Shifts: at least one shift is required');
+  const dupe = (ids: string[]) => ids.find((id, i) => ids.indexOf(id) !== i);
+  const shiftDupe = dupe(shifts.map(s => s.id));
+  if (shiftDupe) errors.push(`Shifts: ID "${shiftDupe}" is used twice`);
+  const skillDupe = dupe(skills.map(s => s.id));
+  if (skillDupe) errors.push(`Skills: ID "${skillDupe}" is used twice`);
+};
+
+const parseRulesCSV = (text: string): RulesImportResult => {
+  const errors: string[] = [];
+  const blocks = new Map<string, { line: number; cells: string[] }[]>();
+  let current: { line: number; cells: string[] }[] | null = null;
+  parseCSV(text).forEach((cells, i) => {
+    if (isBlankRow(cells)) { current = null; return; }
+    if (!current) {
+      current = [];
+      blocks.set(cells[0].trim().toLowerCase(), current);
+      return;
+    }
+    current.push({ line: i + 1, cells: cells.map(c => c.trim()) });
+  });
+  const block = (title: string) => {
+    const rows = blocks.get(title.toLowerCase());
+    if (!rows) errors.push(`No "${title}" block found`);
+    return { header: rows?.[0]?.cells.map(h => h.toLowerCase()) ?? [], rows: rows?.slice(1) ?? [] };
+  };
+
+  const shiftBlock = block('Shifts');
+  const sc = (name: string) => shiftBlock.header.indexOf(name);
+  const shifts: ShiftDefinition[] = [];
+  shiftBlock.rows.forEach(({ line, cells }) => {
+    const s = attempt(`Row ${line}`, errors, () => readShift({
+      id: cells[sc('id')] ?? '', name: cells[sc('name')] ?? '', startTime: cells[sc('start')] ?? '',
+      endTime: cells[sc('end')] ?? '', color: cells[sc('color')] ?? '', type: cells[sc('category')] ?? ''
+    }));
+    if (s) shifts.push(s);
+  });
+
+  const skills: Skill[] = [];
+  const skillBlock = blocks.has('skills') ? block('Skills') : { header: [], rows: [] };
+  skillBlock.rows.forEach(({ line, cells }) => {
+    const [id, name] = [cells[skillBlock.header.indexOf('id')] ?? '', cells[skillBlock.header.indexOf('name')] ?? ''];
+    if (!id || !name) errors.push(`Row ${line}: a skill needs an ID and a name`);
+    else skills.push({ id, name });
+  });
+  checkCatalogs(shifts, skills, errors);
+
+  const requirements: ShiftConfig['requirements'] = {};
+  const reqBlock = block('Requirements');
+  const rc = (name: string) => reqBlock.header.indexOf(name);
+  reqBlock.rows.forEach(({ line, cells }) => {
+    const label = `Row ${line}`;
+    const rowErrors: string[] = [];
+    const dow = attempt(label, rowErrors, () => readWeekday(cells[rc('weekday')] ?? ''));
+    const shiftRef = cells[rc('shift')] ?? '';
+    const def = shifts.find(s => s.id === shiftRef) ?? shifts.find(s => s.name.toLowerCase() === shiftRef.toLowerCase());
+    if (!def) rowErrors.push(`${label}: shift "${shiftRef}" is not in the Shifts block`);
+    const count = attempt(label, rowErrors, () => readOptionalNumber(cells[rc('workers')], 'workers') ?? 0);
+    const skillMins: Record<string, number> = {};
+    reqBlock.header.forEach((h, col) => {
+      if (['weekday', 'shift', 'workers'].includes(h) || !cells[col]) return;
+      const skill = skills.find(s => s.name.toLowerCase() === h || s.id.toLowerCase() === h);
+      if (!skill) { rowErrors.push(`${label}: column "${h}" is not a skill from the Skills block`); return; }
+      const min = attempt(label, rowErrors, () => readOptionalNumber(cells[col], `${skill.name} minimum`));
+      if (min) skillMins[skill.id] = min;
+    });
+    errors.push(...rowErrors);
+    if (rowErrors.length === 0) requirements[dow!] = { ...requirements[dow!], [def!.id]: { count: count!, skills: skillMins } };
+  });
+
+  // Holidays and date overrides are optional blocks (files from before they existed have none)
+  const holidays: Holiday[] = [];
+  if (blocks.has('holidays')) {
+    const holidayBlock = block('Holidays');
+    const hc = (name: string) => holidayBlock.header.indexOf(name);
+    holidayBlock.rows.forEach(({ line, cells }) => {
+      const h = attempt(`Row ${line}`, errors, () => readHoliday({
+        id: cells[hc('id')] ?? '', date: cells[hc('date')] ?? '', name: cells[hc('name')] ?? '',
+        asWeekday: cells[hc('as weekday')] ?? '', closed: splitList(cells[hc('closed shifts')] ?? '', /[,;|]+/)
+      }, shifts));
+      if (h) holidays.push(h);
+    });
+  }
+
+  const dateOverrides: DateOverride[] = [];
+  if (blocks.has('date overrides')) {
+    const overrideBlock = block('Date Overrides');
+    const oc = (name: string) => overrideBlock.header.indexOf(name);
+    overrideBlock.rows.forEach(({ line, cells }) => {
+      const label = `Row ${line}`;
+      const rowErrors: string[] = [];
+      const date = attempt(label, rowErrors, () => readDate(cells[oc('date')] ?? ''));
+      const shiftRef = cells[oc('shift')] ?? '';
+      const def = findShift(shifts, shiftRef);
+      if (!def) rowErrors.push(`${label}: shift "${shiftRef}" is not in the Shifts block`);
+      const count = attempt(label, rowErrors, () => readOptionalNumber(cells[oc('workers')], 'workers') ?? 0);
+      const skillMins: Record<string, number> = {};
+      overrideBlock.header.forEach((h, col) => {
+        if (['date', 'shift', 'workers', 'note'].includes(h) || !cells[col]) return;
+        const skill = skills.find(s => s.name.toLowerCase() === h || s.id.toLowerCase() === h);
+        if (!skill) { rowErrors.push(`${label}: column "${h}" is not a skill from the Skills block`); return; }
+        const min = attempt(label, rowErrors, () => readOptionalNumber(cells[col], `${skill.name} minimum`));
+        if (min) skillMins[skill.id] = min;
+      });
+      errors.push(...rowErrors);
+      if (rowErrors.length > 0) return;
+      // Rows of one date build up a single override
+      let override = dateOverrides.find(o => o.date === date);
+      if (!override) dateOverrides.push(override = { date: date!, requirements: {} });
+      if (override.requirements[def!.id]) errors.push(`${label}: ${def!.name} on ${date} is listed twice`);
+      override.requirements[def!.id] = { count: count!, skills: skillMins };
+      const note = cells[oc('note')];
+      if (note) override.note = note;
+    });
+  }
+  checkCalendar(holidays, dateOverrides, errors);
+
+  const constraints: HardConstraints = { ...DEFAULT_HARD_CONSTRAINTS };
+  if (blocks.has('constraints')) {
+    block('Constraints').rows.forEach(({ line, cells }) => {
+      const field = CONSTRAINT_FIELDS.find(c => c.label.toLowerCase() === cells[0].toLowerCase() || c.key.toLowerCase() === cells[0].toLowerCase());
+      if (!field) { errors.push(`Row ${line}: unknown rule "${cells[0]}"`); return; }
+      const value = attempt(`Row ${line}`, errors, () => readOptionalNumber(cells[1], field.label, field.key !== 'minRestHours'));
+      if (value !== undefined) constraints[field.key] = value;
+    });
+  }
+
+  let distributeDayShiftsToEither = false;
+  let undesirable = DEFAULT_UNDESIRABLE;
+  let weekendDays = DEFAULT_WEEKEND_DAYS;
+  if (blocks.has('options')) {
+    block('Options').rows.forEach(({ line, cells }) => {
+      const option = cells[0].toLowerCase();
+      const value = cells[1] ?? '';
+      if (option === DISTRIBUTE_OPTION.toLowerCase()) distributeDayShiftsToEither = readFlag(value);
+      else if (option === UNDESIRABLE_OPTION.toLowerCase()) undesirable = attempt(`Row ${line}`, errors, () => Array.from(new Set(splitList(value, /[,;|]+/).map(readUndesirable)))) ?? [];
+      else if (option === WEEKEND_OPTION.toLowerCase()) weekendDays = attempt(`Row ${line}`, errors, () => Array.from(new Set(splitList(value, /[\s,;|]+/).map(readWeekday)))) ?? [];
+      else errors.push(`Row ${line}: unknown option "${cells[0]}"`);
+    });
+  }
+
+  return errors.length > 0
+    ? { config: null, errors }
+    : { config: { shifts, skills, distributeDayShiftsToEither, constraints, requirements, holidays, dateOverrides, undesirable, weekendDays }, errors };
+};
+
+const parseRulesJSON = (data: any): RulesImportResult => {
+  const raw = data?.config ?? data;
+  const errors: string[] = [];
+  if (!Array.isArray(raw?.shifts)) return { config: null, errors: ['The file has no "shifts" list'] };
+
+  const shifts: ShiftDefinition[] = [];
+  raw.shifts.forEach((s: any, i: number) => {
+    const def = attempt(`Shift ${i + 1}`, errors, () => readShift({
+      id: String(s?.id ?? ''), name: String(s?.name ?? ''), startTime: String(s?.startTime ?? ''),
+      endTime: String(s?.endTime ?? ''), color: String(s?.color ?? ''), type: String(s?.type ?? '')
+    }));
+    if (def) shifts.push(def);
+  });
+  const skills: Skill[] = [];
+  (Array.isArray(raw.skills) ? raw.skills : []).forEach((s: any, i: number) => {
+    if (typeof s?.id !== 'string' || !s.id || typeof s.name !== 'string' || !s.name.trim()) errors.push(`Skill ${i + 1}: a skill needs an ID and a name`);
+    else skills.push({ id: s.id, name: s.name.trim() });
+  });
+  checkCatalogs(shifts, skills, errors);
+
+  const requirements: ShiftConfig['requirements'] = {};
+  Object.entries(raw.requirements || {}).forEach(([dowKey, reqs]: [string, any]) => {
+    const dow = Number(dowKey);
+    if (!Number.isInteger(dow) || dow < 0 || dow > 6) { errors.push(`Requirements: "${dowKey}" is not a weekday (0-6)`); return; }
+    Object.entries(reqs || {}).forEach(([shiftId, req]: [string, any]) => {
+      const label = `Requirement ${WEEKDAYS[dow]}/${shiftId}`;
+      if (!shifts.some(s => s.id === shiftId)) { errors.push(`${label}: unknown shift`); return; }
+      const count = attempt(label, errors, () => readOptionalNumber(typeof req === 'number' ? req : req?.count, 'workers') ?? 0);
+      const skillMins: Record<string, number> = {};
+      Object.entries((typeof req === 'object' && req?.skills) || {}).forEach(([skillId, min]) => {
+        if (!skills.some(s => s.id === skillId)) { errors.push(`${label}: unknown skill "${skillId}"`); return; }
+        const n = attempt(label, errors, () => readOptionalNumber(min, 'skill minimum'));
+        if (n) skillMins[skillId] = n;
+      });
+      if (count !== undefined) requirements[dow] = { ...requirements[dow], [shiftId]: { count, skills: skillMins } as ShiftRequirement };
+    });
+  });
+
+  const holidays: Holiday[] = [];
+  (Array.isArray(raw.holidays) ? raw.holidays : []).forEach((h: any, i: number) => {
+    const holiday = attempt(`Holiday ${i + 1}`, errors, () => readHoliday({
+      id: typeof h?.id === 'string' ? h.id : '', date: String(h?.date ?? ''), name: String(h?.name ?? ''),
+      asWeekday: h?.asWeekday === undefined || h.asWeekday === null ? '' : String(h.asWeekday),
+      closed: Array.isArray(h?.closedShiftIds) ? h.closedShiftIds.map(String) : []
+    }, shifts));
+    if (holiday) holidays.push(holiday);
+  });
+
+  const dateOverrides: DateOverride[] = [];
+  (Array.isArray(raw.dateOverrides) ? raw.dateOverrides : []).forEach((o: any, i: number) => {
+    const label = `Date override ${i + 1}`;
+    const date = attempt(label, errors, () => readDate(String(o?.date ?? '')));
+    if (date === undefined) return;
+    const overrideRequirements: Record<string, ShiftRequirement> = {};
+    Object.entries(o.requirements || {}).forEach(([shiftId, req]: [string, any]) => {
+      if (!shifts.some(s => s.id === shiftId)) { errors.push(`${label}: unknown shift "${shiftId}"`); return; }
+      const count = attempt(label, errors, () => readOptionalNumber(req?.count, 'workers') ?? 0);
+      const skillMins: Record<string, number> = {};
+      Object.entries(req?.skills || {}).forEach(([skillId, min]) => {
+        if (!skills.some(s => s.id === skillId)) { errors.push(`${label}: unknown skill "${skillId}"`); return; }
+        const n = attempt(label, errors, () => readOptionalNumber(min, 'skill minimum'));
+        if (n) skillMins[skillId] = n;
+      });
+      if (count !== undefined) overrideRequirements[shiftId] = { count, skills: skillMins };
+    });
+    dateOverrides.push({ date, requirements: overrideRequirements, note: typeof o.note === 'string' && o.note.trim() ? o.note.trim() : undefined });
+  });
+  checkCalendar(holidays, dateOverrides, errors);
+
+  const constraints: HardConstraints = { ...DEFAULT_HARD_CONSTRAINTS };
+  CONSTRAINT_FIELDS.forEach(({ key, label }) => {
+    if (!raw.constraints || !(key in raw.constraints)) return;
+    const value = attempt('Constraints', errors, () => readOptionalNumber(raw.constraints[key], label, key !== 'minRestHours'));
+    if (value !== undefined) constraints[key] = value;
+  });
+
+  const undesirable = attempt('Undesirable shifts', errors, () => {
+    if (raw.undesirable === undefined) return DEFAULT_UNDESIRABLE;
+    if (!Array.isArray(raw.undesirable)) throw new Error('must be a list of shift categories');
+    return Array.from(new Set<UndesirableCategory>(raw.undesirable.map((c: unknown) => readUndesirable(String(c)))));
+  }) ?? [];
+  const weekendDays = attempt('Weekend days', errors, () => {
+    if (raw.weekendDays === undefined) return DEFAULT_WEEKEND_DAYS;
+    if (!Array.isArray(raw.weekendDays) || raw.weekendDays.some((d: unknown) => !Number.isInteger(d) || (d as number) < 0 || (d as number) > 6)) throw new Error('must be a list of weekdays (0-6)');
+    return Array.from(new Set<number>(raw.weekendDays));
+  }) ?? [];
+
+  return errors.length > 0
+    ? { config: null, errors }
+    : { config: { shifts, skills, distributeDayShiftsToEither: !!raw.distributeDayShiftsToEither, constraints, requirements, holidays, dateOverrides, undesirable, weekendDays }, errors };
+};
+
+export const parseRulesFile = (text: string, fileName: string): RulesImportResult => {
+  if (!looksLikeJSON(text, fileName)) return parseRulesCSV(text);
+  try {
+    return parseRulesJSON(JSON.parse(text.replace(/^\uFEFF/, '')));
+  } catch (e) {
+    return { config: null, errors: [`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+};
@@ -0,0 +1,95 @@
+import { ShiftConfig, ShiftDefinition, ShiftRequirement, ShiftType, DailySchedule, ShiftAssignments, WorkerPreference, Employee, Holiday, DateOverride } from '../types';
+import { parseDateKey } from './dates';
+
+export const DEFAULT_SHIFTS: ShiftDefinition[] = [
+  { id: 'day', name: 'Day', startTime: '06:00', endTime: '15:00', color: '#d97706', type: ShiftType.DAY },
+  { id: 'night', name: 'Night', startTime: '14:00', endTime: '00:00', color: '#4338ca', type: ShiftType.NIGHT }
+];
+
+export const getShiftDefinition = (config: ShiftConfig, shiftId: string): ShiftDefinition | undefined =>
+  config.shifts.find(s => s.id === shiftId);
+
+// Requirement for a shift on a weekday; weekdays never configured default to one worker with no skills
+export const getShiftRequirement = (config: ShiftConfig, dayOfWeek: number, shiftId: string): ShiftRequirement =>
+  config.requirements[dayOfWeek]?.[shiftId] ?? { count: 1, skills: {} };
+
+export const getRequiredCount = (config: ShiftConfig, dayOfWeek: number, shiftId: string): number =>
+  getShiftRequirement(config, dayOfWeek, shiftId).count;
+
+export const getHoliday = (config: ShiftConfig, dateKey: string): Holiday | undefined =>
+  config.holidays.find(h => h.date === dateKey);
+
+export const getDateOverride = (config: ShiftConfig, dateKey: string): DateOverride | undefined =>
+  config.dateOverrides.find(o => o.date === dateKey);
+
+// The weekday whose requirements a date follows: a holiday's stand-in, else its own
+export const getEffectiveWeekday = (config: ShiftConfig, dateKey: string): number =>
+  getHoliday(config, dateKey)?.asWeekday ?? parseDateKey(dateKey).getDay();
+
+// Requirement for a shift on a date before any date override: nobody if a holiday closes the
+// shift, otherwise that of the weekday the date follows
+export const getCalendarRequirement = (config: ShiftConfig, dateKey: string, shiftId: string): ShiftRequirement =>
+  getHoliday(config, dateKey)?.closedShiftIds.includes(shiftId)
+    ? { count: 0, skills: {} }
+    : getShiftRequirement(config, getEffectiveWeekday(config, dateKey), shiftId);
+
+// Requirement for a shift on a date; a date override wins over the calendar
+export const getDateRequirement = (config: ShiftConfig, dateKey: string, shiftId: string): ShiftRequirement =>
+  getDateOverride(config, dateKey)?.requirements[shiftId] ?? getCalendarRequirement(config, dateKey, shiftId);
+
+export const getDateRequiredCount = (config: ShiftConfig, dateKey: string, shiftId: string): number =>
+  getDateRequirement(config, dateKey, shiftId).count;
+
+export const getAssigned = (day: DailySchedule, shiftId: string): string[] => day.assignments[shiftId] || [];
+
+// The shift an employee works on a day, or null
+export const findEmployeeShift = (day: DailySchedule, empId: string): string | null => {
+  for (const [shiftId, ids] of Object.entries(day.assignments)) {
+    if (ids.includes(empId)) return shiftId;
+  }
+  return null;
+};
+
+export const emptyAssignments = (config: ShiftConfig): ShiftAssignments =>
+  Object.fromEntries(config.shifts.map(s => [s.id, []]));
+
+export const canWorkShiftType = (emp: Employee, type: ShiftType): boolean => {
+  if (type === ShiftType.DAY) return emp.preference !== WorkerPreference.NIGHT_ONLY;
+  return emp.preference !== WorkerPreference.DAY_ONLY;
+};
+
+const parseTime = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) + (m || 0) / 60;
+};
+
+export const getShiftDurationHours = (def: ShiftDefinition): number => {
+  const start = parseTime(def.startTime);
+  let end = parseTime(def.endTime);
+  if (end <= start) end += 24;
+  return end - start;
+};
+
+// Absolute [start, end] in hours from the start of day 0; shifts ending at or before their start run past midnight
+export const getShiftWindow = (def: ShiftDefinition, dayIdx: number): [number, number] => {
+  const start = dayIdx * 24 + parseTime(def.startTime);
+  return [start, start + getShiftDurationHours(def)];
+};
+
+// Light background for a shift colour (hex + alpha)
+export const shiftTint = (def: ShiftDefinition | undefined, alpha: string = '1a'): string =>
+  def ? `${def.color}${alpha}` : '#f3f4f6';
+
+// Shift definitions needed to display a version: the configured ones, plus placeholders for
+// shifts that have since been deleted from the config but still hold assignments
+export const getVersionShifts = (schedule: DailySchedule[], config: ShiftConfig): ShiftDefinition[] => {
+  const known = new Set(config.shifts.map(s => s.id));
+  const orphaned = new Set<string>();
+  schedule.forEach(day => Object.entries(day.assignments).forEach(([id, ids]) => {
+    if (!known.has(id) && ids.length > 0) orphaned.add(id);
+  }));
+  return [
+    ...config.shifts,
+    ...Array.from(orphaned).map(id => ({ id, name: `${id} (deleted)`, startTime: '00:00', endTime: '00:00', color: '#6b7280', type: ShiftType.DAY }))
+  ];
+};
@@ -0,0 +1,37 @@
+import { Employee, ShiftConfig, DailySchedule, ShiftRequirement } from '../types';
+import { getShiftRequirement, getDateRequirement, getAssigned } from './shifts';
+
+export interface UnmetSkill {
+  skillId: string;
+  missing: number;
+}
+
+export const hasSkill = (emp: Employee, skillId: string): boolean => emp.skills.includes(skillId);
+
+// Skill minimums of a requirement that reference skills still in the catalog
+const knownMinimums = (config: ShiftConfig, { skills }: ShiftRequirement): Record<string, number> => {
+  const known = new Set(config.skills.map(s => s.id));
+  return Object.fromEntries(Object.entries(skills).filter(([id, min]) => known.has(id) && min > 0));
+};
+
+export const getSkillMinimums = (config: ShiftConfig, dayOfWeek: number, shiftId: string): Record<string, number> =>
+  knownMinimums(config, getShiftRequirement(config, dayOfWeek, shiftId));
+
+// As above, for a date (holidays and date overrides applied)
+export const getDateSkillMinimums = (config: ShiftConfig, dateKey: string, shiftId: string): Record<string, number> =>
+  knownMinimums(config, getDateRequirement(config, dateKey, shiftId));
+
+// Skills a slot is short of, given who is assigned to it
+export const findUnmetSkills = (day: DailySchedule, shiftId: string, employees: Employee[], config: ShiftConfig): UnmetSkill[] => {
+  const assigned = getAssigned(day, shiftId)
+    .map(id => employees.find(e => e.id === id))
+    .filter((e): e is Employee => !!e);
+  return Object.entries(getDateSkillMinimums(config, day.date, shiftId))
+    .map(([skillId, min]) => ({ skillId, missing: min - assigned.filter(e => hasSkill(e, skillId)).length }))
+    .filter(u => u.missing > 0);
+};
+
+// Total missing qualified workers on target-month days
+export const countUnmetSkills = (schedule: DailySchedule[], employees: Employee[], config: ShiftConfig): number =>
+  schedule.reduce((sum, day) => day.isPadding ? sum : sum + config.shifts.reduce((shiftSum, def) =>
+    shiftSum + findUnmetSkills(day, def.id, employees, config).reduce((s, u) => s + u.missing, 0), 0), 0);
@@ -0,0 +1,270 @@
+import { AppState } from '../types';
+import { parseDateKey } from './dates';
+import { DEFAULT_UNDESIRABLE, DEFAULT_WEEKEND_DAYS } from './fairness';
+
+const STORAGE_KEY = 'shiftmaster:app-state';
+
+// Bump whenever the persisted shape changes and register a migration below.
+export const CURRENT_SCHEMA_VERSION = 10;
+
+// Identifies this browser tab so we can tell our own writes apart from another tab's.
+const TAB_ID = crypto.randomUUID();
+
+interface PersistedEnvelope {
+  schemaVersion: number;
+  revision: number; // Increments on every save, across all tabs
+  savedAt: number;
+  tabId: string;
+  state: unknown;
+}
+
+export interface LoadResult {
+  state: AppState | null;
+  revision: number;
+  error?: string;
+}
+
+export type SaveResult =
+  | { status: 'saved'; revision: number }
+  | { status: 'conflict'; revision: number; savedAt: number }
+  | { status: 'error'; error: string };
+
+export interface ExternalChange {
+  revision: number;
+  savedAt: number;
+}
+
+// --- Migrations ---
+// Saved data is JSON of some older schema, so it is read as unknown and checked field by field.
+// A field that is not what a migration needs stops loading with a message naming it.
+export type RawRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const record = (value: unknown, what: string): RawRecord => {
+  if (!isRecord(value)) throw new Error(`Saved data has a malformed ${what}`);
+  return value;
+};
+
+const list = (value: unknown, what: string): unknown[] => {
+  if (!Array.isArray(value)) throw new Error(`Saved data has a malformed ${what} list`);
+  return value;
+};
+
+const records = (value: unknown, what: string): RawRecord[] => list(value, what).map(item => record(item, `${what} entry`));
+
+const mapValues = (value: unknown, what: string, update: (item: RawRecord, key: string) => RawRecord): RawRecord =>
+  Object.fromEntries(Object.entries(record(value, what)).map(([key, item]) => [key, update(record(item, what), key)]));
+
+// Adds score fields to both passes of a solver report, when the version has one
+const withScoreDefaults = (report: unknown, defaults: RawRecord): unknown => isRecord(report) ? {
+  ...report,
+  greedy: { ...defaults, ...(isRecord(report.greedy) ? report.greedy : {}) },
+  optimizer: isRecord(report.optimizer) ? { ...defaults, ...report.optimizer } : report.optimizer
+} : report;
+
+// Each entry upgrades a state object from schema version `key` to `key + 1`.
+const MIGRATIONS: Record<number, (state: RawRecord) => RawRecord> = {
+  // v2: hard constraints moved from code into ShiftConfig
+  1: state => ({
+    ...state,
+    config: {
+      ...record(state.config, 'config'),
+      constraints: { maxConsecutiveDays: 5, noDayAfterNight: true, minRestHours: null, maxNightsPerWeek: null, minDaysOffPer7Days: null }
+    }
+  }),
+  // v3: dated time-off on each employee's availability
+  2: state => ({
+    ...state,
+    employees: records(state.employees, 'employees').map(e => {
+      const availability = isRecord(e.availability) ? e.availability : {};
+      return { ...e, availability: { ...availability, timeOff: availability.timeOff || [] } };
+    })
+  }),
+  // v4: soft shift requests; nobody had any before, so existing outcomes are all zero
+  3: state => ({
+    ...state,
+    employees: records(state.employees, 'employees').map(e => ({ ...e, shiftRequests: e.shiftRequests || [] })),
+    versions: records(state.versions, 'versions').map(v => ({
+      ...v,
+      stats: mapValues(v.stats, 'stats', st => ({ ...st, requestsGranted: 0, requestsDenied: 0 })),
+      solverReport: withScoreDefaults(v.solverReport, { deniedRequests: 0 })
+    }))
+  }),
+  // v5: fixed day/night pair replaced by a list of shift definitions (IDs 'day' and 'night'
+  // keep the old requirement keys valid); "no Day after Night" becomes a rest rule on shift times
+  4: state => {
+    const legacyShiftId = (shift: unknown) => shift === 'DAY' ? 'day' : shift === 'NIGHT' ? 'night' : undefined;
+    const { dayStartTime, dayEndTime, nightStartTime, nightEndTime, constraints, ...config } = record(state.config, 'config');
+    const { noDayAfterNight, ...restConstraints } = record(constraints, 'constraints');
+    return {
+      ...state,
+      config: {
+        ...config,
+        shifts: [
+          { id: 'day', name: 'Day', startTime: dayStartTime, endTime: dayEndTime, color: '#d97706', type: 'DAY' },
+          { id: 'night', name: 'Night', startTime: nightStartTime, endTime: nightEndTime, color: '#4338ca', type: 'NIGHT' }
+        ],
+        constraints: { ...restConstraints, minRestHours: restConstraints.minRestHours ?? (noDayAfterNight ? 11 : null) }
+      },
+      employees: records(state.employees, 'employees').map(e => {
+        const availability = record(e.availability, 'availability');
+        return {
+          ...e,
+          availability: {
+            ...availability,
+            timeOff: records(availability.timeOff, 'time off').map(({ shift, ...t }) => ({ ...t, shiftId: legacyShiftId(shift) }))
+          },
+          shiftRequests: records(e.shiftRequests, 'shift requests').map(({ shift, ...r }) => ({ ...r, shiftId: legacyShiftId(shift) }))
+        };
+      }),
+      versions: records(state.versions, 'versions').map(v => ({
+        ...v,
+        schedule: records(v.schedule, 'schedule').map(({ dayShift, nightShift, ...d }) => ({ ...d, assignments: { day: dayShift, night: nightShift } })),
+        stats: mapValues(v.stats, 'stats', st => ({ ...st, shiftCounts: { day: st.dayShifts, night: st.nightShifts } }))
+      }))
+    };
+  },
+  // v6: skills catalog; requirements become { count, skills } instead of a bare headcount
+  5: state => {
+    const config = record(state.config, 'config');
+    return {
+      ...state,
+      config: {
+        ...config,
+        skills: [],
+        requirements: mapValues(config.requirements, 'requirements', req =>
+          Object.fromEntries(Object.entries(req).map(([shiftId, count]) => [shiftId, { count, skills: {} }])))
+      },
+      employees: records(state.employees, 'employees').map(e => ({ ...e, skills: e.skills || [] })),
+      versions: records(state.versions, 'versions').map(v => ({ ...v, solverReport: withScoreDefaults(v.solverReport, { unmetSkills: 0 }) }))
+    };
+  },
+  // v7: audit log of manual edits per version; earlier edits were not recorded
+  6: state => ({
+    ...state,
+    versions: records(state.versions, 'versions').map(v => ({ ...v, auditLog: v.auditLog || [] }))
+  }),
+  // v8: pinned days and assignments per version
+  7: state => ({
+    ...state,
+    versions: records(state.versions, 'versions').map(v => ({ ...v, locks: v.locks || { days: [], assignments: [] } }))
+  }),
+  // v9: holiday calendar and per-date requirement overrides
+  8: state => {
+    const config = record(state.config, 'config');
+    return { ...state, config: { ...config, holidays: config.holidays || [], dateOverrides: config.dateOverrides || [] } };
+  },
+  // v10: weekend and holiday shift counters; undesirable categories get the same defaults as a new project
+  9: state => {
+    const config = record(state.config, 'config');
+    const holidayDates = new Set(records(config.holidays, 'holidays').map(h => h.date));
+    const weekendDays: unknown[] = Array.isArray(config.weekendDays) ? config.weekendDays : DEFAULT_WEEKEND_DAYS;
+    const isWeekend = (date: unknown) => typeof date === 'string' && weekendDays.includes(parseDateKey(date).getDay());
+    return {
+      ...state,
+      config: { ...config, undesirable: config.undesirable || DEFAULT_UNDESIRABLE, weekendDays },
+      versions: records(state.versions, 'versions').map(v => {
+        const days = records(v.schedule, 'schedule');
+        const count = (id: string, matches: (date: unknown) => boolean) => days
+          .filter(d => !d.isPadding && matches(d.date))
+          .reduce((n, d) => n + Object.values(record(d.assignments, 'assignments')).filter(ids => Array.isArray(ids) && ids.includes(id)).length, 0);
+        return {
+          ...v,
+          stats: mapValues(v.stats, 'stats', (st, id) => ({
+            ...st,
+            weekendShifts: st.weekendShifts ?? count(id, isWeekend),
+            holidayShifts: st.holidayShifts ?? count(id, date => holidayDates.has(date))
+          })),
+          solverReport: withScoreDefaults(v.solverReport, { undesirableSpread: 0 })
+        };
+      })
+    };
+  }
+};
+
+export const migrateState = (state: unknown, fromVersion: number): AppState => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Saved data uses schema v${fromVersion}, but this app only understands up to v${CURRENT_SCHEMA_VERSION}. Please update ShiftMaster.`);
+  }
+  let migrated = record(state, 'state');
+  for (let v = fromVersion; v < CURRENT_SCHEMA_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration registered from schema v${v}`);
+    migrated = migrate(migrated);
+  }
+  return migrated as unknown as AppState;
+};
+
+const readEnvelope = (): PersistedEnvelope | null => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return null;
+  const parsed = JSON.parse(raw);
+  if (typeof parsed !== 'object' || parsed === null || typeof parsed.schemaVersion !== 'number') {
+    throw new Error('Saved data is not a ShiftMaster state');
+  }
+  return parsed as PersistedEnvelope;
+};
+
+export const loadAppState = (): LoadResult => {
+  try {
+    const envelope = readEnvelope();
+    if (!envelope) return { state: null, revision: 0 };
+    return {
+      state: migrateState(envelope.state, envelope.schemaVersion),
+      revision: envelope.revision || 0
+    };
+  } catch (e) {
+    console.error(e);
+    return { state: null, revision: 0, error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+// Writes the state unless another tab has saved a newer revision since `baseRevision`.
+// Pass `force` to overwrite the other tab's data anyway.
+export const saveAppState = (state: AppState, baseRevision: number, force: boolean = false): SaveResult => {
+  try {
+    let stored: PersistedEnvelope | null = null;
+    try {
+      stored = readEnvelope();
+    } catch {
+      // Unreadable data gets overwritten
+    }
+
+    const storedRevision = stored?.revision || 0;
+    if (!force && stored && storedRevision > baseRevision && stored.tabId !== TAB_ID) {
+      return { status: 'conflict', revision: storedRevision, savedAt: stored.savedAt };
+    }
+
+    const envelope: PersistedEnvelope = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      revision: Math.max(storedRevision, baseRevision) + 1,
+      savedAt: Date.now(),
+      tabId: TAB_ID,
+      // Explanations are about ten times the size of the roster itself, so they live for the session only
+      state: { ...state, versions: state.versions.map(({ explanations, ...v }) => v) }
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+    return { status: 'saved', revision: envelope.revision };
+  } catch (e) {
+    console.error(e);
+    return { status: 'error', error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+// Notifies when a different tab writes the state. Returns an unsubscribe function.
+export const subscribeToExternalChanges = (onChange: (change: ExternalChange) => void): (() => void) => {
+  const handler = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      const envelope = JSON.parse(event.newValue) as PersistedEnvelope;
+      if (envelope.tabId === TAB_ID) return;
+      onChange({ revision: envelope.revision, savedAt: envelope.savedAt });
+    } catch (e) {
+      console.error(e);
+    }
+  };
+  window.addEventListener('storage', handler);
+  return () => window.removeEventListener('storage', handler);
+};
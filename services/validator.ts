@@ -0,0 +1,96 @@
+import {
+  Employee,
+  ShiftConfig,
+  ScheduleVersion,
+  ScheduleViolation,
+  ViolationSeverity,
+  ConstraintRule,
+  CoverageRule
+} from '../types';
+import { CONSTRAINT_LABELS, ConstraintContext, findConstraintViolations } from './constraints';
+import { parseDateKey } from './dates';
+import { getShiftDefinition, getAssigned, getDateRequiredCount } from './shifts';
+import { findUnmetSkills } from './skills';
+
+// The history a version was generated with answers for the days before its first one
+// (streaks, the last shift), as it did for the generator
+const versionContext = (version: ScheduleVersion, config: ShiftConfig): ConstraintContext =>
+  ({ schedule: version.schedule, config, history: version.inputs?.history });
+
+// Checks a finished (possibly hand-edited) roster against the hard rules and the coverage
+// requirements. Padding days provide context for the rules but are not reported themselves.
+export const validateSchedule = (version: ScheduleVersion, employees: Employee[], config: ShiftConfig): ScheduleViolation[] => {
+  const violations: ScheduleViolation[] = [];
+  const ctx = versionContext(version, config);
+  const empById = new Map(employees.map(e => [e.id, e]));
+  const shiftName = (shiftId: string) => getShiftDefinition(config, shiftId)?.name ?? shiftId;
+
+  version.schedule.forEach((day, dayIdx) => {
+    if (day.isPadding) return;
+    const date = parseDateKey(day.date);
+
+    Object.keys(day.assignments).forEach(shiftId => {
+      const assigned = getAssigned(day, shiftId);
+      const reported = new Set<string>();
+      assigned.forEach(empId => {
+        const emp = empById.get(empId);
+        if (!emp) return;
+        findConstraintViolations(emp, dayIdx, date, shiftId, ctx).forEach(rule => {
+          // Someone listed twice in the same slot is reported once per rule
+          if (reported.has(`${empId}:${rule}`)) return;
+          reported.add(`${empId}:${rule}`);
+          violations.push({
+            rule,
+            severity: ViolationSeverity.ERROR,
+            date: day.date,
+            shiftId,
+            employeeId: empId,
+            message: `${emp.name} (${shiftName(shiftId)}): ${CONSTRAINT_LABELS[rule]}`
+          });
+        });
+      });
+    });
+
+    config.shifts.forEach(def => {
+      const missing = getDateRequiredCount(config, day.date, def.id) - getAssigned(day, def.id).length;
+      if (missing > 0) {
+        violations.push({
+          rule: CoverageRule.UNDERSTAFFED,
+          severity: ViolationSeverity.WARNING,
+          date: day.date,
+          shiftId: def.id,
+          message: `${def.name}: ${missing} ${missing === 1 ? 'slot' : 'slots'} empty`
+        });
+      }
+      findUnmetSkills(day, def.id, employees, config).forEach(u => {
+        violations.push({
+          rule: CoverageRule.MISSING_SKILL,
+          severity: ViolationSeverity.WARNING,
+          date: day.date,
+          shiftId: def.id,
+          message: `${def.name}: needs ${u.missing} more ${config.skills.find(s => s.id === u.skillId)?.name ?? u.skillId}`
+        });
+      });
+    });
+  });
+
+  return violations;
+};
+
+// Hard rules an employee would break if added to a slot of the version as it stands
+export const checkCandidate = (
+  version: ScheduleVersion,
+  config: ShiftConfig,
+  emp: Employee,
+  date: string,
+  shiftId: string
+): ConstraintRule[] => {
+  const dayIdx = version.schedule.findIndex(d => d.date === date);
+  if (dayIdx < 0) return [];
+  const rules = findConstraintViolations(emp, dayIdx, parseDateKey(date), shiftId, versionContext(version, config));
+  // Already in this very slot: adding them again would be a second booking
+  if (getAssigned(version.schedule[dayIdx], shiftId).includes(emp.id) && !rules.includes(ConstraintRule.DOUBLE_BOOKED)) {
+    rules.push(ConstraintRule.DOUBLE_BOOKED);
+  }
+  return rules;
+};
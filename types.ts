@@ -1,4 +1,5 @@
 
+// Category of a shift definition; decides which workers' preferences it suits
 export enum ShiftType {
   DAY = 'DAY',
   NIGHT = 'NIGHT'
@@ -10,9 +11,34 @@ export enum WorkerPreference {
   EITHER = 'Either'
 }
 
+// Dated unavailability: vacation, sick leave, or a single blocked shift
+export interface TimeOffEntry {
+  id: string;
+  startDate: string; // ISO YYYY-MM-DD
+  endDate: string; // ISO YYYY-MM-DD, inclusive (same as startDate for one day)
+  shiftId?: string; // Only this shift is blocked; the whole day when omitted
+  reason?: string;
+}
+
 export interface Availability {
   // 0 = Sunday, 1 = Monday, ... 6 = Saturday
   daysOff: number[]; 
+  timeOff: TimeOffEntry[];
+}
+
+export enum RequestKind {
+  PREFER = 'Prefer',
+  AVOID = 'Avoid'
+}
+
+// Soft wish: honoured when possible, never at the cost of a hard rule
+export interface ShiftRequest {
+  id: string;
+  kind: RequestKind;
+  date?: string; // ISO YYYY-MM-DD for a one-off request
+  dayOfWeek?: number; // 0-6 for a recurring request (used when date is not set)
+  shiftId?: string; // Whole day when omitted
+  weight: number; // 1 (nice to have) - 5 (important)
 }
 
 export interface Employee {
@@ -21,35 +47,248 @@ export interface Employee {
   preference: WorkerPreference;
   availability: Availability;
   targetShifts?: number; // Quota
+  shiftRequests: ShiftRequest[];
+  skills: string[]; // Skill IDs from the catalog in ShiftConfig
   color: string;
 }
 
+// Hard rules applied by generation and validation. null disables a limit.
+export interface HardConstraints {
+  maxConsecutiveDays: number | null;
+  minRestHours: number | null; // Between the end of one shift and the start of the next; overlaps are never allowed
+  maxNightsPerWeek: number | null; // Night-type shifts per calendar week, Sunday to Saturday
+  minDaysOffPer7Days: number | null; // In any rolling 7-day window
+}
+
+export enum ConstraintRule {
+  DAY_OFF = 'DAY_OFF',
+  TIME_OFF = 'TIME_OFF',
+  PREFERENCE = 'PREFERENCE',
+  DOUBLE_BOOKED = 'DOUBLE_BOOKED',
+  MAX_CONSECUTIVE = 'MAX_CONSECUTIVE',
+  MIN_REST = 'MIN_REST',
+  MAX_NIGHTS_PER_WEEK = 'MAX_NIGHTS_PER_WEEK',
+  MIN_DAYS_OFF = 'MIN_DAYS_OFF'
+}
+
+// Problems the validator reports that are not about a single placement
+export enum CoverageRule {
+  UNDERSTAFFED = 'UNDERSTAFFED',
+  MISSING_SKILL = 'MISSING_SKILL'
+}
+
+export enum ViolationSeverity {
+  ERROR = 'Error', // A hard rule is broken
+  WARNING = 'Warning' // The roster is legal but incomplete
+}
+
+export interface ScheduleViolation {
+  rule: ConstraintRule | CoverageRule;
+  severity: ViolationSeverity;
+  date: string; // ISO YYYY-MM-DD
+  shiftId: string;
+  employeeId?: string; // Set for placement rules
+  message: string;
+}
+
+export interface ShiftDefinition {
+  id: string;
+  name: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm; at or before startTime means the shift ends the next day
+  color: string; // Hex
+  type: ShiftType;
+}
+
+// A role or qualification, e.g. "Shift lead" or "Certified operator"
+export interface Skill {
+  id: string;
+  name: string;
+}
+
+export interface ShiftRequirement {
+  count: number; // Headcount
+  skills: Record<string, number>; // Skill ID -> minimum qualified workers among the headcount
+}
+
+// A public holiday or special day. Its requirements follow another weekday's (e.g. Sunday's)
+// and/or some shifts are closed; anything not covered falls back to the date's own weekday.
+export interface Holiday {
+  id: string;
+  date: string; // ISO YYYY-MM-DD
+  name: string;
+  asWeekday?: number; // 0-6: staff the day like this weekday
+  closedShiftIds: string[]; // Shifts that need nobody
+}
+
+// Exact requirements for single shifts on one date; takes precedence over holidays and weekdays
+export interface DateOverride {
+  date: string; // ISO YYYY-MM-DD
+  requirements: Record<string, ShiftRequirement>; // Shift ID -> requirement; shifts left out are unchanged
+  note?: string;
+}
+
+// Kinds of shift nobody wants too many of; the ones marked in ShiftConfig are shared out evenly
+export enum UndesirableCategory {
+  WEEKEND = 'Weekend',
+  HOLIDAY = 'Holiday',
+  NIGHT = 'Night'
+}
+
 export interface ShiftConfig {
-  dayStartTime: string;
-  dayEndTime: string;
-  nightStartTime: string;
-  nightEndTime: string;
+  shifts: ShiftDefinition[]; // In the order they run during the day
+  skills: Skill[];
   distributeDayShiftsToEither?: boolean;
+  constraints: HardConstraints;
   requirements: {
-    [key: number]: {
-      day: number;
-      night: number;
-    }
+    // Weekday (0 = Sunday) -> shift ID -> requirement
+    [key: number]: Record<string, ShiftRequirement>;
   };
+  holidays: Holiday[];
+  dateOverrides: DateOverride[];
+  undesirable: UndesirableCategory[]; // Balanced on their own, ahead of total shifts
+  weekendDays: number[]; // 0-6; the days that count as the weekend
 }
 
+// Shift ID -> Employee IDs
+export type ShiftAssignments = Record<string, string[]>;
+
 export interface DailySchedule {
   date: string; // ISO YYYY-MM-DD
-  dayShift: string[]; // Employee IDs
-  nightShift: string[]; // Employee IDs
+  assignments: ShiftAssignments;
   isPadding?: boolean; // True if this day is outside the target month (prev/next month padding)
 }
 
+export interface SlotRef {
+  date: string; // ISO YYYY-MM-DD
+  shiftId: string;
+}
+
+// One change to a generated roster, applied by the roster edit reducer
+export type RosterEdit =
+  | { type: 'assign'; slot: SlotRef; employeeId: string }
+  | { type: 'remove'; slot: SlotRef; employeeId: string }
+  | { type: 'move'; from: SlotRef; to: SlotRef; employeeId: string }
+  | { type: 'swap'; a: SlotRef; aEmployeeId: string; b: SlotRef; bEmployeeId: string };
+
+export interface LockedAssignment extends SlotRef {
+  employeeId: string;
+}
+
+// Parts of a version that "regenerate unlocked" keeps exactly as they are
+export interface ScheduleLocks {
+  days: string[]; // Whole days (ISO YYYY-MM-DD)
+  assignments: LockedAssignment[]; // Single placements; the rest of their shift is re-solved
+}
+
+export enum AuditAction {
+  ADDED = 'Added',
+  REMOVED = 'Removed'
+}
+
+export interface AuditChange {
+  date: string; // ISO YYYY-MM-DD
+  shiftId: string;
+  employeeId: string;
+  employeeName: string; // As it was at the time, in case the employee is later renamed or removed
+  action: AuditAction;
+}
+
+// One roster edit as recorded in a version's audit log
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  changes: AuditChange[];
+  reason?: string;
+}
+
 export interface ManualHistoryInput {
-  [dateKey: string]: {
-    dayShift: string[];
-    nightShift: string[];
-  }
+  [dateKey: string]: ShiftAssignments;
+}
+
+export enum SolverEngine {
+  GREEDY = 'Greedy',
+  OPTIMIZER = 'Optimizer'
+}
+
+export interface GenerateOptions {
+  engine?: SolverEngine;
+  locks?: ScheduleLocks;
+  lockedSchedule?: DailySchedule[]; // The version the locks refer to
+  seed?: number; // Random when omitted; the same seed and inputs always give the same roster
+  isCancelled?: () => boolean; // Asked while optimizing; generation then fails with an error
+}
+
+// What a version was generated from besides its seed, engine and locks, so it can be reproduced
+export interface GenerationInputs {
+  history?: HistoricalContext;
+  manualHistory?: ManualHistoryInput;
+  fingerprint: string; // Of the employees and rules at generation; differs once either changed
+}
+
+// Weighted objective used to compare rosters (lower is better)
+export interface ScheduleScore {
+  uncoveredSlots: number;
+  unmetSkills: number; // Missing qualified workers, summed over slots
+  targetDeviation: number;
+  unfairness: number;
+  deniedRequests: number; // Weighted by request weight
+  undesirableSpread: number; // Uneven sharing of marked undesirable shifts, summed over categories
+  total: number;
+}
+
+export interface SolverReport {
+  engine: SolverEngine;
+  greedy: ScheduleScore;
+  optimizer?: ScheduleScore;
+}
+
+// Over how many months fairness and quotas are balanced when a roster continues the previous month's
+export enum StatsRollover {
+  MONTHLY = 'Monthly', // Every month starts even
+  QUARTERLY = 'Quarterly' // Totals and quota shortfalls carry over until the quarter ends
+}
+
+// How a version continues the saved roster of the month before it
+export interface VersionContinuity {
+  previousVersionId: string;
+  rollover: StatsRollover;
+  quotaCarry: Record<string, number>; // Employee ID -> shifts added to (+) or taken off (-) this month's quota
+}
+
+// --- Assignment Explanations ---
+export enum PacingCategory {
+  BEHIND = 'Behind quota',
+  ON_PACE = 'On pace',
+  AHEAD = 'Ahead of quota',
+  NO_QUOTA = 'No quota'
+}
+
+// What decided a candidate's rank for a slot, in the order the generator compares them
+export interface RankFactors {
+  metTarget: boolean; // Quota already reached, counting pinned shifts still to come
+  pacing: PacingCategory;
+  wish: number; // Soft requests: above 0 wants this shift, below 0 avoids it
+  fairness: number; // Shifts so far (history included); lower goes first
+  balance?: number; // "Either" workers only: shifts of this type so far
+  undesirable?: number; // Undesirable slots only: shifts so far in the slot's marked categories (history included)
+}
+
+export interface SlotCandidate {
+  employeeId: string;
+  excludedBy?: ConstraintRule[]; // Hard rules that ruled the employee out; absent when eligible
+  factors?: RankFactors; // Eligible candidates only
+  picked: boolean;
+  pickedForSkill?: string; // Skill ID the pick was made to cover
+}
+
+// The generator's reasoning for one slot, as it filled it
+export interface SlotExplanation {
+  date: string; // ISO YYYY-MM-DD
+  shiftId: string;
+  required: number;
+  locked: string[]; // Pinned before the generator ran
+  candidates: SlotCandidate[]; // Eligible in rank order, then excluded
 }
 
 export interface ScheduleVersion {
@@ -60,25 +299,108 @@ export interface ScheduleVersion {
   year: number;
   schedule: DailySchedule[];
   stats: Record<string, EmployeeStats>;
+  solverReport?: SolverReport;
+  auditLog: AuditEntry[]; // Manual edits since generation, oldest first
+  locks: ScheduleLocks;
+  continuity?: VersionContinuity; // Set when generated from the previous month's version
+  seed?: number; // Of the generator; missing on versions made before seeds were recorded
+  inputs?: GenerationInputs; // Missing on versions made before inputs were recorded
+  explanations?: SlotExplanation[]; // Per slot of the greedy pass; days taken as given have none
+}
+
+// --- Version Comparison ---
+export interface SlotDiff {
+  date: string; // ISO YYYY-MM-DD
+  shiftId: string;
+  removed: string[]; // Employee IDs only in the first version
+  added: string[]; // Employee IDs only in the second version
+}
+
+export interface CoverageGap {
+  date: string;
+  shiftId: string;
+  missing: number; // Empty slots
+  missingSkills: string[]; // Names of skills short on this shift
+}
+
+export interface CoverageSummary {
+  uncoveredSlots: number;
+  unmetSkills: number;
+  gaps: CoverageGap[];
+}
+
+export interface VersionComparison {
+  slotDiffs: SlotDiff[];
+  changedDates: string[];
+  coverage: [CoverageSummary, CoverageSummary];
 }
 
 export interface EmployeeStats {
   totalShifts: number;
-  dayShifts: number;
-  nightShifts: number;
+  dayShifts: number; // All DAY-type shifts
+  nightShifts: number; // All NIGHT-type shifts
+  weekendShifts: number; // On the configured weekend days
+  holidayShifts: number; // On holidays
+  shiftCounts: Record<string, number>; // Per shift ID
   longestStreak: number;
+  requestsGranted: number;
+  requestsDenied: number;
+}
+
+// Shift counts before the new month; weekend and holiday are missing from contexts made before they were counted
+export interface AccumulatedStats {
+  day: number;
+  night: number;
+  total: number;
+  weekend?: number;
+  holiday?: number;
 }
 
 export interface HistoricalContext {
-  lastDayNightShiftIds: string[];
-  accumulatedStats: Record<string, { day: number, night: number, total: number }>;
+  lastDayAssignments: ShiftAssignments; // Who worked which shift on the final day
+  accumulatedStats: Record<string, AccumulatedStats>;
   consecutiveDaysEnding: Record<string, number>;
   sourceName: string;
+  precedingDays?: ShiftAssignments[]; // Exact assignments of the days before day 0, oldest first
+  quotaCarry?: Record<string, number>; // See VersionContinuity
+}
+
+// Raw rows of a past schedule CSV, before names are matched to employees
+export interface ParsedHistoryCSV {
+  sourceName: string;
+  rows: Record<string, string[]>[]; // Shift ID -> names, one entry per day
+  dates?: string[]; // ISO YYYY-MM-DD per row, when the file has a date for every row
+}
+
+// Maps a (lower-cased) name from an imported file to an employee ID, or null to ignore it
+export type HistoryNameMapping = Record<string, string | null>;
+
+// --- CSV Import ---
+// A CSV file split into its main table and the titled sections that follow it
+export interface CsvTable {
+  sourceName: string;
+  delimiter: string;
+  headers: string[];
+  rows: string[][];
+  sections: Record<string, string[][]>; // Section title -> rows, e.g. "Version"
 }
 
+// How one column of an imported roster is read
+export type CsvColumnRole =
+  | { kind: 'ignore' }
+  | { kind: 'date' }
+  | { kind: 'padding' }
+  | { kind: 'shift'; shiftId: string };
+
 export interface AppState {
   employees: Employee[];
   config: ShiftConfig;
   versions: ScheduleVersion[];
   currentVersionId: string | null;
 }
+
+// Contents of a project backup file: the persisted state plus the session's history context
+export interface ProjectBackup extends AppState {
+  manualHistory: ManualHistoryInput | null;
+  importedHistory: HistoricalContext | null;
+}